@@ -1,39 +1,80 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { GameCanvas } from './components/GameCanvas';
-import { GameState, GameStats, PlayerConfig } from './types';
+import { GameState, GameStats, PlayerConfig, ReplayData, InputDevice, SortieSave, Campaign, AudioSettings, PilotProfile, UpgradeId } from './types';
 import { generateMissionDebrief } from './services/geminiService';
-import { initAudio } from './utils/sound';
-
-const COLORS = [
-  { name: 'COBALT', value: '#3b82f6' },
-  { name: 'CRIMSON', value: '#ef4444' },
-  { name: 'EMERALD', value: '#22c55e' },
-  { name: 'AMBER', value: '#eab308' },
-  { name: 'VOID', value: '#a855f7' },
-  { name: 'CYBER', value: '#06b6d4' },
-];
+import { initAudio, suspendAudio, resumeAudio, applyAudioSettings } from './utils/sound';
+import { parseReplay, replayLength, serializeReplay } from './engine/replay';
+import { TICK_RATE } from './engine/GameEngine';
+import { DEFAULT_LOADOUT, LOADOUTS, canLevelWeapon } from './engine/loadouts';
+import { UPGRADES, UPGRADE_IDS, maxUpgradeLevel } from './engine/upgrades';
+import { parseCampaign } from './engine/campaign';
+import { loadSortie } from './services/sortieSave';
+import { loadAudioSettings, saveAudioSettings } from './services/audioSettings';
+import { creditsForSortie, loadPilotProfile, recordSortie, savePilotProfile } from './services/pilotProfile';
+import { HULL_COLORS, LOADOUT_UNLOCKS, TRAILS, Unlockable, UnlockKind, isUnlocked, nextUpgradeCost, purchase, purchaseUpgrade } from './services/unlocks';
+
+const MOVE_HINTS: Record<InputDevice, string> = {
+  pointer: 'TOUCH/DRAG',
+  keyboard: 'WASD/ARROWS',
+  gamepad: 'L-STICK/D-PAD',
+};
 
-const TRAILS = [
-  { id: 'standard', name: 'ION DRIVE' },
-  { id: 'plasma', name: 'PLASMA CORE' },
-  { id: 'turbo', name: 'AFTERBURNER' },
+// Tap for missiles, hold and release for a charge shot
+const SECONDARY_HINTS: Record<InputDevice, string> = {
+  pointer: '2ND TOUCH',
+  keyboard: 'SPACE',
+  gamepad: 'A',
+};
+
+const BOMB_HINTS: Record<InputDevice, string> = {
+  pointer: 'DOUBLE-TAP',
+  keyboard: 'B',
+  gamepad: 'B',
+};
+
+const PAUSE_HINTS: Record<InputDevice, string> = {
+  pointer: '[II]',
+  keyboard: 'ESC/P',
+  gamepad: '[II]',
+};
+
+const VOLUME_SLIDERS: { key: 'master' | 'music' | 'sfx'; label: string }[] = [
+  { key: 'master', label: 'MASTER' },
+  { key: 'music', label: 'MUSIC' },
+  { key: 'sfx', label: 'SFX' },
 ];
 
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>(GameState.MENU);
+  const [sortieId, setSortieId] = useState(0);
+  const [savedSortie, setSavedSortie] = useState<SortieSave | null>(null);
+  const [resumeSave, setResumeSave] = useState<SortieSave | null>(null);
   const [score, setScore] = useState(0);
   const [combo, setCombo] = useState(0);
   const [highScore, setHighScore] = useState(0);
   const [health, setHealth] = useState(100);
+  const [showHitboxes, setShowHitboxes] = useState(false); // Debug overlay, toggled with H in dev builds
   const [lastStats, setLastStats] = useState<GameStats | null>(null);
   const [debrief, setDebrief] = useState<string>("");
   const [showControls, setShowControls] = useState(true);
+  const [inputDevice, setInputDevice] = useState<InputDevice>('pointer');
   const [installPrompt, setInstallPrompt] = useState<any>(null);
+  const [lastReplay, setLastReplay] = useState<ReplayData | null>(null);
+  const [bestReplay, setBestReplay] = useState<ReplayData | null>(null);
+  const [activeReplay, setActiveReplay] = useState<ReplayData | null>(null);
+  const [replayError, setReplayError] = useState<string>("");
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const [campaign, setCampaign] = useState<Campaign | null>(null);
+  const [campaignError, setCampaignError] = useState<string>("");
+  const campaignInputRef = useRef<HTMLInputElement>(null);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(loadAudioSettings);
+  const [profile, setProfile] = useState<PilotProfile>(loadPilotProfile);
+  const [lastCredits, setLastCredits] = useState(0);
   
-  const [playerConfig, setPlayerConfig] = useState<PlayerConfig>({
-    color: '#3b82f6',
-    trailType: 'standard'
-  });
+  const [playerConfig, setPlayerConfig] = useState<PlayerConfig>(() => profile.config);
+  // What sorties launch with: the hangar selection plus every upgrade bought so far
+  const loadoutId = playerConfig.loadout ?? DEFAULT_LOADOUT;
+  const sortieConfig = useMemo(() => ({ ...playerConfig, upgrades: profile.upgrades }), [playerConfig, profile.upgrades]);
 
   // Load High Score
   useEffect(() => {
@@ -41,6 +82,39 @@ const App: React.FC = () => {
     if (storedHighScore) {
       setHighScore(parseInt(storedHighScore, 10));
     }
+
+    const storedReplay = localStorage.getItem('garuda_best_replay');
+    if (storedReplay) {
+      try {
+        setBestReplay(parseReplay(storedReplay));
+      } catch {
+        localStorage.removeItem('garuda_best_replay');
+      }
+    }
+
+    const storedCampaign = localStorage.getItem('garuda_campaign');
+    if (storedCampaign) {
+      try {
+        setCampaign(parseCampaign(storedCampaign));
+      } catch {
+        localStorage.removeItem('garuda_campaign');
+      }
+    }
+  }, []);
+
+  // Browsers only allow audio after a gesture; unlock it on the first one so the menu track can start
+  useEffect(() => {
+    const unlock = () => {
+      initAudio();
+      window.removeEventListener('pointerdown', unlock);
+      window.removeEventListener('keydown', unlock);
+    };
+    window.addEventListener('pointerdown', unlock);
+    window.addEventListener('keydown', unlock);
+    return () => {
+      window.removeEventListener('pointerdown', unlock);
+      window.removeEventListener('keydown', unlock);
+    };
   }, []);
 
   // Listen for PWA install prompt
@@ -57,13 +131,147 @@ const App: React.FC = () => {
     };
   }, []);
 
+  // Pause hotkeys and auto-pause when the app loses focus
+  useEffect(() => {
+    const pause = () => {
+      setGameState(prev => prev === GameState.PLAYING ? GameState.PAUSED : prev);
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) pause();
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (import.meta.env.DEV && (e.key === 'h' || e.key === 'H')) {
+        setShowHitboxes(prev => !prev);
+        return;
+      }
+      if (e.key === 'm' || e.key === 'M') {
+        setAudioSettings(prev => ({ ...prev, muted: !prev.muted }));
+        return;
+      }
+      if (e.key !== 'Escape' && e.key !== 'p' && e.key !== 'P') return;
+      setGameState(prev => {
+        if (prev === GameState.PLAYING) return GameState.PAUSED;
+        if (prev === GameState.PAUSED) return GameState.PLAYING;
+        return prev;
+      });
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('blur', pause);
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('blur', pause);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+
+  // Check for an unfinished sortie whenever we land on the main menu
+  useEffect(() => {
+    if (gameState === GameState.MENU) {
+      setSavedSortie(loadSortie());
+    }
+  }, [gameState]);
+
+  // Push mixer levels to the audio graph and remember them for next time
+  useEffect(() => {
+    applyAudioSettings(audioSettings);
+    saveAudioSettings(audioSettings);
+  }, [audioSettings]);
+
+  // Persist the pilot's record, wallet and hangar selection
+  useEffect(() => {
+    savePilotProfile(profile);
+  }, [profile]);
+
+  useEffect(() => {
+    setProfile(prev => (prev.config === playerConfig ? prev : { ...prev, config: playerConfig }));
+  }, [playerConfig]);
+
+  // Freeze sound along with the simulation
+  useEffect(() => {
+    if (gameState === GameState.PAUSED) {
+      suspendAudio();
+    } else {
+      resumeAudio();
+    }
+  }, [gameState]);
+
   const handleStart = () => {
     initAudio(); // Unlock AudioContext on user interaction
+    setResumeSave(null);
+    setSortieId(id => id + 1);
     setGameState(GameState.PLAYING);
     setDebrief("");
     setCombo(0);
   };
 
+  const handleContinue = () => {
+    if (!savedSortie) return;
+    initAudio();
+    setResumeSave(savedSortie);
+    setSortieId(id => id + 1);
+    // Land on the pause screen so the pilot can get ready before the action resumes
+    setGameState(GameState.PAUSED);
+    setDebrief("");
+  };
+
+  const renderAudioSettings = () => (
+    <div className="p-3 border border-gray-700 bg-gray-900/60 space-y-2 text-left">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-arcade text-gray-400">AUDIO</span>
+        <button
+          onClick={() => setAudioSettings(prev => ({ ...prev, muted: !prev.muted }))}
+          className={`px-2 py-0.5 text-[10px] font-mono border ${audioSettings.muted ? 'border-red-500 text-red-400' : 'border-gray-600 text-gray-400 hover:text-white'}`}
+        >
+          {audioSettings.muted ? 'MUTED [M]' : 'MUTE [M]'}
+        </button>
+      </div>
+      {VOLUME_SLIDERS.map(({ key, label }) => (
+        <label key={key} className="flex items-center space-x-3">
+          <span className="w-14 text-[10px] font-mono text-gray-400">{label}</span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(audioSettings[key] * 100)}
+            onChange={e => {
+              const value = Number(e.target.value) / 100;
+              setAudioSettings(prev => ({ ...prev, [key]: value }));
+            }}
+            disabled={audioSettings.muted}
+            className="flex-1 accent-green-500"
+          />
+          <span className="w-8 text-right text-[10px] font-mono text-gray-500">{Math.round(audioSettings[key] * 100)}</span>
+        </label>
+      ))}
+    </div>
+  );
+
+  // Equips a hangar item, buying it first if the pilot doesn't own it yet
+  const handleSelect = <T extends string>(kind: UnlockKind, item: Unlockable<T>, patch: Partial<PlayerConfig>) => {
+    if (!isUnlocked(profile, kind, item)) {
+      const bought = purchase(profile, kind, item);
+      if (!bought) return;
+      setProfile(bought);
+    }
+    setPlayerConfig(prev => ({ ...prev, ...patch }));
+  };
+
+  const handleUpgrade = (id: UpgradeId) => {
+    const bought = purchaseUpgrade(profile, id);
+    if (bought) setProfile(bought);
+  };
+
+  const renderPrice = <T extends string>(kind: UnlockKind, item: Unlockable<T>) => {
+    if (isUnlocked(profile, kind, item)) return null;
+    const affordable = profile.credits >= item.cost;
+    return <span className={`block text-[8px] font-mono ${affordable ? 'text-yellow-400' : 'text-gray-600'}`}>{item.cost} CR</span>;
+  };
+
   const handleInstallClick = () => {
     if (!installPrompt) return;
     installPrompt.prompt();
@@ -74,14 +282,23 @@ const App: React.FC = () => {
     });
   };
 
-  const handleGameOver = async (stats: GameStats) => {
+  const handleGameOver = async (stats: GameStats, replay: ReplayData) => {
     setGameState(GameState.GAME_OVER);
     setLastStats(stats);
+    setLastReplay(replay);
+    setLastCredits(creditsForSortie(stats));
+    setProfile(prev => recordSortie(prev, stats, replayLength(replay) / TICK_RATE));
     
     // Update High Score
     if (stats.score > highScore) {
       setHighScore(stats.score);
       localStorage.setItem('garuda_highscore', stats.score.toString());
+      setBestReplay(replay);
+      try {
+        localStorage.setItem('garuda_best_replay', serializeReplay(replay));
+      } catch {
+        // Storage full: the run still counts, it just can't be rewatched
+      }
     }
     
     // Get Static Debrief
@@ -89,6 +306,66 @@ const App: React.FC = () => {
     setDebrief(text);
   };
 
+  const handleWatchReplay = (replay: ReplayData) => {
+    initAudio();
+    setReplayError("");
+    setActiveReplay(replay);
+    setCombo(0);
+    setGameState(GameState.REPLAY);
+  };
+
+  const handleReplayEnd = () => {
+    setActiveReplay(null);
+    setGameState(GameState.MENU);
+  };
+
+  const handleExportReplay = (replay: ReplayData) => {
+    const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `garuda-replay-${replay.score}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      handleWatchReplay(parseReplay(await file.text()));
+    } catch (err) {
+      setReplayError(err instanceof Error ? err.message : 'Could not read replay file');
+    }
+  };
+
+  const handleImportCampaign = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      setCampaign(parseCampaign(text));
+      setCampaignError("");
+      try {
+        localStorage.setItem('garuda_campaign', text);
+      } catch {
+        // Storage full: the campaign stays loaded until the page closes
+      }
+    } catch (err) {
+      setCampaignError(err instanceof Error ? err.message : 'Could not read campaign file');
+    }
+  };
+
+  const handleClearCampaign = () => {
+    setCampaign(null);
+    setCampaignError("");
+    localStorage.removeItem('garuda_campaign');
+  };
+
   return (
     <div className="relative w-full h-screen overflow-hidden crt-flicker">
       <div className="scanlines"></div>
@@ -96,16 +373,23 @@ const App: React.FC = () => {
       {/* Background/Game Layer */}
       <GameCanvas 
         gameState={gameState} 
+        sortieId={sortieId}
+        resumeSave={resumeSave}
+        campaign={campaign}
         onGameOver={handleGameOver}
+        onReplayEnd={handleReplayEnd}
+        onInputDeviceChange={setInputDevice}
+        replay={activeReplay}
         setScore={setScore}
         setCombo={setCombo}
         setHealth={setHealth}
-        playerConfig={playerConfig}
+        playerConfig={sortieConfig}
+        showHitboxes={showHitboxes}
         highScore={highScore}
       />
 
       {/* UI Overlay */}
-      {(gameState === GameState.PLAYING || gameState === GameState.GAME_OVER) && (
+      {(gameState === GameState.PLAYING || gameState === GameState.PAUSED || gameState === GameState.GAME_OVER || gameState === GameState.REPLAY) && (
         <div className="absolute top-4 left-4 font-arcade text-green-400 z-10 pointer-events-none drop-shadow-md">
           <div>SCORE: {score.toString().padStart(6, '0')}</div>
           <div className="text-yellow-500 text-xs mt-1">HI: {Math.max(score, highScore).toString().padStart(6, '0')}</div>
@@ -123,30 +407,67 @@ const App: React.FC = () => {
         </div>
       )}
 
-      {/* Controls Legend Overlay */}
-      {gameState === GameState.PLAYING && (
+      {/* Replay Playback Overlay */}
+      {gameState === GameState.REPLAY && (
         <div 
           className="absolute top-4 right-4 z-20 flex flex-col items-end pointer-events-auto"
           onMouseDown={e => e.stopPropagation()}
           onTouchStart={e => e.stopPropagation()}
         >
+          <div className="mb-2 text-xs font-arcade text-red-500 animate-pulse">&#9679; REPLAY</div>
           <button
-            onClick={() => setShowControls(prev => !prev)}
-            className="mb-2 px-2 py-1 bg-gray-900/50 border border-gray-600 text-[10px] font-mono text-gray-400 hover:text-white hover:bg-gray-800 transition-colors backdrop-blur-sm"
+            onClick={handleReplayEnd}
+            className="px-2 py-1 bg-gray-900/50 border border-gray-600 text-[10px] font-mono text-gray-400 hover:text-white hover:bg-gray-800 transition-colors backdrop-blur-sm"
           >
-            {showControls ? '[-]' : '[?]'}
+            EXIT REPLAY
           </button>
+        </div>
+      )}
+
+      {/* Controls Legend Overlay */}
+      {gameState === GameState.PLAYING && (
+        <div 
+          className="absolute top-4 right-4 z-20 flex flex-col items-end pointer-events-auto"
+          onMouseDown={e => e.stopPropagation()}
+          onTouchStart={e => e.stopPropagation()}
+        >
+          <div className="flex space-x-2 mb-2">
+            <button
+              onClick={() => setGameState(GameState.PAUSED)}
+              className="px-2 py-1 bg-gray-900/50 border border-gray-600 text-[10px] font-mono text-gray-400 hover:text-white hover:bg-gray-800 transition-colors backdrop-blur-sm"
+            >
+              [II]
+            </button>
+            <button
+              onClick={() => setShowControls(prev => !prev)}
+              className="px-2 py-1 bg-gray-900/50 border border-gray-600 text-[10px] font-mono text-gray-400 hover:text-white hover:bg-gray-800 transition-colors backdrop-blur-sm"
+            >
+              {showControls ? '[-]' : '[?]'}
+            </button>
+          </div>
           
           {showControls && (
             <div className="flex flex-col items-end space-y-1 bg-black/60 p-3 rounded border border-gray-800 shadow-lg backdrop-blur-sm">
               <div className="flex items-center space-x-3 mb-1">
                 <span className="text-[10px] font-mono text-gray-400">MOVE</span>
-                <span className="text-[10px] font-arcade text-green-400">TOUCH/DRAG</span>
+                <span className="text-[10px] font-arcade text-green-400">{MOVE_HINTS[inputDevice]}</span>
               </div>
               <div className="flex items-center space-x-3 mb-1">
                 <span className="text-[10px] font-mono text-gray-400">FIRE</span>
                 <span className="text-[10px] font-arcade text-green-400">AUTO</span>
               </div>
+              <div className="flex items-center space-x-3 mb-1">
+                <span className="text-[10px] font-mono text-gray-400">MISSILE/CHARGE</span>
+                <span className="text-[10px] font-arcade text-green-400">{SECONDARY_HINTS[inputDevice]}</span>
+              </div>
+              <div className="flex items-center space-x-3 mb-1">
+                <span className="text-[10px] font-mono text-gray-400">BOMB</span>
+                <span className="text-[10px] font-arcade text-green-400">{BOMB_HINTS[inputDevice]}</span>
+              </div>
+              <div className="flex items-center space-x-3 mb-1">
+                <span className="text-[10px] font-mono text-gray-400">PAUSE</span>
+                <span className="text-[10px] font-arcade text-green-400">{PAUSE_HINTS[inputDevice]}</span>
+              </div>
               <div className="w-full h-px bg-gray-700/50 my-1"></div>
               <div className="flex flex-col items-end">
                 <span className="text-[9px] font-mono text-gray-500 mb-1">UPGRADES</span>
@@ -163,6 +484,10 @@ const App: React.FC = () => {
                      <span className="text-[8px] font-arcade text-purple-500">P</span>
                      <span className="text-[8px] font-mono text-gray-600 scale-75">PLASMA</span>
                    </div>
+                   <div className="flex flex-col items-center">
+                     <span className="text-[8px] font-arcade text-rose-500">B</span>
+                     <span className="text-[8px] font-mono text-gray-600 scale-75">BOMB</span>
+                   </div>
                 </div>
               </div>
             </div>
@@ -170,6 +495,38 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* Pause Overlay */}
+      {gameState === GameState.PAUSED && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/70 z-20 backdrop-blur-sm">
+          <div className="text-center p-8 border-4 border-yellow-500 shadow-[0_0_20px_rgba(234,179,8,0.5)] bg-black max-w-sm w-full mx-4">
+            <h2 className="text-3xl font-arcade text-yellow-500 mb-2 animate-pulse">PAUSED</h2>
+            <p className="text-gray-500 mb-6 font-mono text-xs">ESC / P TO RESUME</p>
+
+            <div className="space-y-3">
+              <button 
+                onClick={() => setGameState(GameState.PLAYING)}
+                className="w-full py-3 bg-green-600 hover:bg-green-500 text-black font-arcade text-sm transition-all border-b-4 border-green-800 active:border-b-0 active:translate-y-1"
+              >
+                RESUME
+              </button>
+              <button 
+                onClick={handleStart}
+                className="w-full py-3 bg-gray-800 hover:bg-gray-700 text-yellow-400 font-arcade text-sm transition-all border border-yellow-500/50"
+              >
+                RESTART
+              </button>
+              <button 
+                onClick={() => setGameState(GameState.MENU)}
+                className="w-full py-2 bg-transparent hover:bg-gray-800 text-gray-400 font-mono text-sm border border-gray-700"
+              >
+                QUIT TO BASE
+              </button>
+              {renderAudioSettings()}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Main Menu */}
       {gameState === GameState.MENU && (
         <div className="absolute inset-0 flex items-center justify-center bg-black/80 z-20 backdrop-blur-sm">
@@ -184,6 +541,18 @@ const App: React.FC = () => {
             </div>
 
             <div className="space-y-4">
+              {savedSortie && (
+                <button 
+                  onClick={handleContinue}
+                  className="w-full py-3 bg-yellow-500 hover:bg-yellow-400 text-black font-arcade text-sm transition-all border-b-4 border-yellow-700 active:border-b-0 active:translate-y-1"
+                >
+                  CONTINUE SORTIE
+                  <span className="block mt-1 text-[10px] font-mono">
+                    WAVE {savedSortie.engine.stats.wave} / SCORE {savedSortie.engine.stats.score}
+                  </span>
+                </button>
+              )}
+
               <button 
                 onClick={handleStart}
                 className="w-full py-4 bg-green-600 hover:bg-green-500 text-black font-arcade font-bold text-lg transition-all border-b-4 border-green-800 active:border-b-0 active:translate-y-1"
@@ -198,6 +567,63 @@ const App: React.FC = () => {
                 HANGAR / CUSTOMIZE
               </button>
               
+              {bestReplay && (
+                <button 
+                  onClick={() => handleWatchReplay(bestReplay)}
+                  className="w-full py-3 bg-gray-800 hover:bg-gray-700 text-yellow-400 font-arcade text-sm transition-all border border-yellow-500/50"
+                >
+                  WATCH BEST RUN
+                </button>
+              )}
+
+              <button 
+                onClick={() => replayInputRef.current?.click()}
+                className="w-full py-2 bg-transparent hover:bg-gray-800 text-gray-400 font-mono text-sm border border-gray-700"
+              >
+                LOAD REPLAY FILE
+              </button>
+              <input
+                ref={replayInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={handleImportReplay}
+              />
+              {replayError && (
+                <div className="text-xs font-mono text-red-400">{replayError}</div>
+              )}
+
+              {campaign ? (
+                <div className="flex items-center justify-between p-2 border border-cyan-700 text-xs font-mono">
+                  <span className="text-cyan-400 truncate">CAMPAIGN: {campaign.name.toUpperCase()}</span>
+                  <button
+                    onClick={handleClearCampaign}
+                    className="ml-2 px-2 text-gray-400 hover:text-white"
+                  >
+                    [X]
+                  </button>
+                </div>
+              ) : (
+                <button 
+                  onClick={() => campaignInputRef.current?.click()}
+                  className="w-full py-2 bg-transparent hover:bg-gray-800 text-gray-400 font-mono text-sm border border-gray-700"
+                >
+                  LOAD CAMPAIGN FILE
+                </button>
+              )}
+              <input
+                ref={campaignInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={handleImportCampaign}
+              />
+              {campaignError && (
+                <div className="text-xs font-mono text-red-400">{campaignError}</div>
+              )}
+
+              {renderAudioSettings()}
+
               {installPrompt && (
                 <button 
                   onClick={handleInstallClick}
@@ -209,7 +635,7 @@ const App: React.FC = () => {
 
               <div className="text-xs text-gray-500 mt-4 font-mono">
                 CONTROLS:<br/>
-                TOUCH & DRAG to Move<br/>
+                TOUCH & DRAG / WASD / GAMEPAD to Move<br/>
                 AUTO-FIRE Enabled
               </div>
             </div>
@@ -222,10 +648,10 @@ const App: React.FC = () => {
         <div className="absolute inset-0 flex flex-col items-center justify-end md:justify-center pb-12 md:pb-0 bg-transparent z-20">
           {/* Note: The ship is rendered by GameCanvas in the background */}
           
-          <div className="bg-black/90 p-6 border-2 border-blue-500 shadow-[0_0_30px_rgba(59,130,246,0.3)] max-w-md w-full mx-4 backdrop-blur-md">
+          <div className="bg-black/90 p-6 border-2 border-blue-500 shadow-[0_0_30px_rgba(59,130,246,0.3)] max-w-md w-full mx-4 max-h-[85vh] overflow-y-auto backdrop-blur-md">
             <div className="flex justify-between items-center mb-6 border-b border-blue-900 pb-2">
               <h2 className="text-xl font-arcade text-blue-400">HANGAR BAY</h2>
-              <div className="text-xs font-mono text-blue-600">SYS: ONLINE</div>
+              <div className="text-xs font-mono text-yellow-400">{profile.credits} CR</div>
             </div>
 
             <div className="space-y-6">
@@ -233,15 +659,25 @@ const App: React.FC = () => {
               <div>
                 <label className="block text-xs font-mono text-gray-400 mb-2">HULL COATING</label>
                 <div className="grid grid-cols-6 gap-2">
-                  {COLORS.map((c) => (
-                    <button
-                      key={c.name}
-                      onClick={() => setPlayerConfig(prev => ({...prev, color: c.value}))}
-                      className={`w-full aspect-square rounded-sm border-2 transition-all ${playerConfig.color === c.value ? 'border-white scale-110 shadow-[0_0_10px_white]' : 'border-transparent opacity-60 hover:opacity-100'}`}
-                      style={{ backgroundColor: c.value }}
-                      title={c.name}
-                    />
-                  ))}
+                  {HULL_COLORS.map((c) => {
+                    const owned = isUnlocked(profile, 'hull', c);
+                    return (
+                      <button
+                        key={c.name}
+                        onClick={() => handleSelect('hull', c, { color: c.value })}
+                        className={`relative w-full aspect-square rounded-sm border-2 transition-all ${playerConfig.color === c.value ? 'border-white scale-110 shadow-[0_0_10px_white]' : 'border-transparent opacity-60 hover:opacity-100'}`}
+                        style={{ backgroundColor: c.value }}
+                        title={owned ? c.name : `${c.name} - ${c.cost} CR`}
+                      >
+                        {!owned && (
+                          <span className="absolute inset-0 flex flex-col items-center justify-center bg-black/70">
+                            <span className="text-[10px] font-arcade text-gray-400">&#9670;</span>
+                            {renderPrice('hull', c)}
+                          </span>
+                        )}
+                      </button>
+                    );
+                  })}
                 </div>
               </div>
 
@@ -251,15 +687,90 @@ const App: React.FC = () => {
                 <div className="grid grid-cols-3 gap-2">
                   {TRAILS.map((t) => (
                     <button
-                      key={t.id}
-                      onClick={() => setPlayerConfig(prev => ({...prev, trailType: t.id as any}))}
-                      className={`py-2 px-1 text-[10px] md:text-xs font-mono border ${playerConfig.trailType === t.id ? 'bg-blue-600 border-blue-400 text-white' : 'bg-gray-900 border-gray-700 text-gray-500'}`}
+                      key={t.value}
+                      onClick={() => handleSelect('trail', t, { trailType: t.value })}
+                      className={`py-2 px-1 text-[10px] md:text-xs font-mono border ${playerConfig.trailType === t.value ? 'bg-blue-600 border-blue-400 text-white' : 'bg-gray-900 border-gray-700 text-gray-500'}`}
                     >
                       {t.name}
+                      {renderPrice('trail', t)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Starting Loadout */}
+              <div>
+                <label className="block text-xs font-mono text-gray-400 mb-2">STARTING LOADOUT</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {LOADOUT_UNLOCKS.map((l) => (
+                    <button
+                      key={l.value}
+                      onClick={() => handleSelect('loadout', l, { loadout: l.value })}
+                      className={`py-2 px-1 text-left text-[10px] md:text-xs font-mono border ${playerConfig.loadout === l.value ? 'bg-blue-600 border-blue-400 text-white' : 'bg-gray-900 border-gray-700 text-gray-500'}`}
+                    >
+                      {l.name}
+                      <span className="block text-[8px] opacity-70">{LOADOUTS[l.value].description}</span>
+                      {renderPrice('loadout', l)}
                     </button>
                   ))}
                 </div>
               </div>
+
+              {/* Upgrade Tree */}
+              <div>
+                <label className="block text-xs font-mono text-gray-400 mb-2">SHIP UPGRADES</label>
+                <div className="space-y-2">
+                  {UPGRADE_IDS.map((id) => {
+                    const upgrade = UPGRADES[id];
+                    const level = profile.upgrades[id] ?? 0;
+                    const cost = nextUpgradeCost(profile, id);
+                    // ARMORY has nothing to add to a single-level weapon
+                    const usable = id !== 'ARMORY' || canLevelWeapon(loadoutId);
+                    const affordable = usable && cost !== null && profile.credits >= cost;
+                    return (
+                      <div key={id} className="flex items-center justify-between p-2 border border-gray-800 text-[10px] font-mono">
+                        <div>
+                          <div className="text-gray-300">
+                            {upgrade.name} <span className="text-gray-600">{level}/{maxUpgradeLevel(id)}</span>
+                          </div>
+                          <div className="text-gray-500">
+                            {upgrade.stat} {upgrade.format(upgrade.value(level))}
+                            {usable && cost !== null && (
+                              <span className="text-green-400"> &rarr; {upgrade.format(upgrade.value(level + 1))}</span>
+                            )}
+                          </div>
+                          {!usable && (
+                            <div className="text-gray-600">NO EFFECT ON {LOADOUTS[loadoutId].weaponType}</div>
+                          )}
+                        </div>
+                        <button
+                          onClick={() => handleUpgrade(id)}
+                          disabled={!affordable}
+                          className={`px-2 py-1 border ${affordable ? 'border-yellow-500 text-yellow-400 hover:bg-yellow-500/20' : 'border-gray-700 text-gray-600'}`}
+                        >
+                          {cost === null ? 'MAX' : `${cost} CR`}
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {/* Pilot Record */}
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1 p-2 border border-gray-800 text-[10px] font-mono">
+                <div className="text-gray-500">SORTIES</div>
+                <div className="text-right text-gray-300">{profile.sorties}</div>
+                <div className="text-gray-500">KILLS</div>
+                <div className="text-right text-gray-300">{profile.kills}</div>
+                <div className="text-gray-500">BEST WAVE</div>
+                <div className="text-right text-gray-300">{profile.bestWave}</div>
+                <div className="text-gray-500">LIFETIME SCORE</div>
+                <div className="text-right text-gray-300">{profile.lifetimeScore}</div>
+                <div className="text-gray-500">FLIGHT TIME</div>
+                <div className="text-right text-gray-300">
+                  {Math.floor(profile.playtime / 3600)}H {Math.floor(profile.playtime / 60) % 60}M
+                </div>
+              </div>
             </div>
 
             <div className="mt-8">
@@ -295,6 +806,8 @@ const App: React.FC = () => {
               <div className="text-right text-cyan-400">{lastStats?.maxCombo}</div>
               <div className="text-gray-400">ENEMIES DOWN</div>
               <div className="text-right text-green-400">{lastStats?.enemiesDestroyed}</div>
+              <div className="text-gray-400">CREDITS</div>
+              <div className="text-right text-yellow-400">+{lastCredits}</div>
             </div>
 
             <div className="mb-6 bg-gray-900 p-4 border border-gray-700 rounded relative">
@@ -313,6 +826,22 @@ const App: React.FC = () => {
             >
               RETRY SORTIE
             </button>
+            {lastReplay && (
+              <div className="grid grid-cols-2 gap-3 mt-3">
+                <button 
+                  onClick={() => handleWatchReplay(lastReplay)}
+                  className="py-2 bg-transparent hover:bg-gray-800 text-yellow-400 font-mono text-sm border border-yellow-700"
+                >
+                  WATCH REPLAY
+                </button>
+                <button 
+                  onClick={() => handleExportReplay(lastReplay)}
+                  className="py-2 bg-transparent hover:bg-gray-800 text-gray-400 font-mono text-sm border border-gray-700"
+                >
+                  EXPORT REPLAY
+                </button>
+              </div>
+            )}
             <button 
               onClick={() => setGameState(GameState.MENU)}
               className="w-full mt-3 py-2 bg-transparent hover:bg-gray-800 text-gray-400 font-mono text-sm border border-gray-700"
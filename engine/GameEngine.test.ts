@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { EngineInput, EngineState, Entity, GameStats, PlayerConfig, Projectile } from '../types';
+import { GameEngine, START_LIVES } from './GameEngine';
+import { ReplayPlayer, ReplayRecorder, parseReplay, serializeReplay } from './replay';
+
+const WIDTH = 400;
+const HEIGHT = 700;
+const CONFIG: PlayerConfig = { color: '#fff', trailType: 'standard' };
+
+// Sweeps side to side near the bottom, with the odd missile and bomb
+const input = (tick: number): EngineInput => ({
+  target: { x: WIDTH / 2 + Math.sin(tick / 30) * 150, y: HEIGHT - 100 },
+  secondary: tick % 300 > 10 && tick % 300 < 15,
+  bomb: tick % 1000 === 500
+});
+
+const createEngine = (seed: number) => {
+  const engine = new GameEngine(WIDTH, HEIGHT, CONFIG, {}, seed);
+  engine.reset(seed);
+  return engine;
+};
+
+// Everything a run's outcome depends on, for comparing two runs
+const fingerprint = (engine: GameEngine) => JSON.stringify({
+  frame: engine.getFrame(),
+  stats: engine.getStats(),
+  player: engine.getPlayer(),
+  enemies: engine.getEnemies().length,
+  projectiles: engine.getProjectiles().length
+});
+
+const fly = (engine: GameEngine, from: number, ticks: number) => {
+  for (let i = from; i < from + ticks && engine.getPlayer().hp > 0; i++) engine.step(input(i));
+};
+
+// An enemy bullet right on the ship's core
+const bulletOn = (player: Entity, id = 'bullet'): Projectile => ({
+  id,
+  pos: { x: player.pos.x + player.size.x / 2 - 4, y: player.pos.y + player.size.y / 2 - 8 },
+  velocity: { x: 0, y: 0 },
+  isPlayer: false,
+  damage: 15,
+  color: '#ef4444',
+  size: 8,
+  type: 'ENEMY_PULSE'
+});
+
+// The ship a moment into a sortie at `hp` with `lives` left, a bullet about to
+// hit it and nothing else around; `gameOver` collects the game over callback
+const aboutToBeHit = (hp: number, lives: number) => {
+  const engine = createEngine(21);
+  for (let i = 0; i < 10; i++) engine.step(input(i));
+  const state: EngineState = engine.serialize();
+  Object.assign(state.player, { hp, lives, invulnTimer: 0 });
+  state.enemies = [];
+  state.projectiles = [bulletOn(state.player)];
+  engine.restore(state);
+
+  const gameOver: GameStats[] = [];
+  engine.setCallbacks({ onGameOver: stats => gameOver.push(stats) });
+  const p = state.player;
+  const hold: EngineInput = { target: { x: p.pos.x + p.size.x / 2, y: p.pos.y + p.size.y / 2 } };
+  return { engine, gameOver, hold };
+};
+
+describe('GameEngine', () => {
+  it('plays the same sortie for the same seed and inputs', () => {
+    const a = createEngine(42);
+    const b = createEngine(42);
+    fly(a, 0, 3000);
+    fly(b, 0, 3000);
+    expect(fingerprint(a)).toBe(fingerprint(b));
+    expect(a.getStats().score).toBeGreaterThan(0);
+
+    const other = createEngine(7);
+    fly(other, 0, 3000);
+    expect(fingerprint(other)).not.toBe(fingerprint(a));
+  });
+
+  it('carries on identically after serialize / restore', () => {
+    const original = createEngine(99);
+    fly(original, 0, 1500);
+
+    const restored = new GameEngine(WIDTH, HEIGHT, CONFIG, {}, 1);
+    restored.restore(JSON.parse(JSON.stringify(original.serialize())));
+    expect(fingerprint(restored)).toBe(fingerprint(original));
+
+    fly(original, 1500, 1500);
+    fly(restored, 1500, 1500);
+    expect(fingerprint(restored)).toBe(fingerprint(original));
+  });
+
+  it('replays a recorded sortie exactly', () => {
+    const live = createEngine(1234);
+    const recorder = new ReplayRecorder(1234, CONFIG, WIDTH, HEIGHT);
+    for (let i = 0; i < 3000 && live.getPlayer().hp > 0; i++) live.step(recorder.record(input(i), WIDTH, HEIGHT));
+
+    const replay = parseReplay(serializeReplay(recorder.finish(live.getStats().score)));
+    const playback = createEngine(replay.seed);
+    const player = new ReplayPlayer(replay);
+    for (let next = player.next(); next; next = player.next()) playback.step(next);
+    expect(fingerprint(playback)).toBe(fingerprint(live));
+  });
+});
+
+describe('lives', () => {
+  it('starts a sortie with a full stock of ships', () => {
+    expect(createEngine(1).getPlayer().lives).toBe(START_LIVES);
+  });
+
+  it('brings in a fresh, blinking ship when one is lost', () => {
+    const { engine, gameOver, hold } = aboutToBeHit(10, 2);
+    engine.step(hold);
+    const p = engine.getPlayer();
+    expect(p).toMatchObject({ lives: 1, hp: p.maxHp });
+    expect(p.pos).toEqual({ x: WIDTH / 2 - p.size.x / 2, y: HEIGHT - 100 });
+    expect(gameOver).toHaveLength(0);
+
+    // Still blinking well after a plain hit's grace would have run out: bullets pass through
+    for (let i = 0; i < 100; i++) engine.step(hold);
+    const state = engine.serialize();
+    state.projectiles.push(bulletOn(state.player, 'late-bullet'));
+    engine.restore(state);
+    engine.step(hold);
+    expect(engine.getPlayer().hp).toBe(p.maxHp);
+    expect(engine.getPlayer().invulnTimer).toBeGreaterThan(0);
+  });
+
+  it('blinks briefly after a hit, so one bullet only counts once', () => {
+    const { engine, hold } = aboutToBeHit(100, 3);
+    engine.step(hold);
+    const state = engine.serialize();
+    state.projectiles.push(bulletOn(state.player, 'second-bullet'));
+    engine.restore(state);
+    engine.step(hold);
+    expect(engine.getPlayer()).toMatchObject({ hp: 85, lives: 3 });
+  });
+
+  it('ends the sortie when the last ship is lost', () => {
+    const { engine, gameOver, hold } = aboutToBeHit(10, 1);
+    engine.step(hold);
+    expect(engine.getPlayer().lives).toBe(0);
+    expect(gameOver).toHaveLength(1);
+  });
+});
@@ -0,0 +1,1410 @@
+import { Entity, BossPart, Projectile, Particle, GameStats, Vector2D, PlayerConfig, TrailType, TimedPowerUpType, WeaponType, MissionType, FloatingText, EngineInput, EngineSnapshot, EngineState, EnemyType, EnemyPath, PendingSpawn, PlayerWeaponType, Campaign, CampaignWave, FormationType, BossId, BulletMotion, Emitter } from '../types';
+import { Random, randomSeed, deriveSeed } from '../utils/random';
+import { ENEMY_ARCHETYPES, EnemyContext, enemyHitbox, isEnemyType, rollEnemyType } from './enemies';
+import { Hitbox, hitboxBounds, hitboxesOverlap, playerCore, playerHull, powerUpHitbox, projectileHitbox, rectHitbox } from './hitboxes';
+import { BOSS_ROSTER, bossForEncounter, partBounds } from './bosses';
+import { campaignWave, describeMission } from './campaign';
+import { BULLET_PATTERNS, EmitOptions, PatternId, advanceBullet, fireVolley } from './patterns';
+import { BOMB_DAMAGE, BOMB_FLASH_TICKS, BOMB_INVULN_TICKS, CHARGE_COLOR, CHARGE_COOLDOWN, CHARGE_MIN_TICKS, MAX_BOMBS, MAX_WEAPON_LEVEL, MISSILE_AMMO, MISSILE_COLOR, MISSILE_COOLDOWN, MISSILE_DAMAGE, MISSILE_MOTION, MISSILE_SALVO, WEAPONS, chargeShot, weaponLevel } from './weapons';
+import { MAGNET_PULL, MAGNET_RADIUS, POWERUPS, SCORE_MULTIPLIER, SHIELD_HITS, SLOW_FACTOR, isTimedPowerUp, rollPowerUp } from './powerups';
+import { DEFAULT_LOADOUT, LOADOUTS, startingWeaponLevel } from './loadouts';
+import { upgradeValue } from './upgrades';
+import { SpatialGrid } from './spatialGrid';
+import { Pool } from './pool';
+import { buildFormation, evaluatePath, formationInterval, formationSequence, isPathComplete, moveAlongPath } from './formations';
+import {
+  panAt, playShoot, playExplosion, playPowerUp, playWeaponUp, playGameOver, playWaveTransition,
+  playEnemyDeath, playEnemyShot, playPlayerHit, playComboMilestone, playLowHpWarning
+} from '../utils/sound';
+
+// The simulation advances in fixed ticks regardless of display refresh rate.
+// Every "frame" count below is a tick count.
+export const TICK_RATE = 60; // Ticks per second
+export const TICK_MS = 1000 / TICK_RATE;
+
+export const PLAYER_SPEED_LERP = 0.15;
+export const ENEMY_SPAWN_RATE = 60; // Ticks
+export const BOSS_WAVE_INTERVAL = 5; // Boss appears every 5 waves
+export const COMBO_TIMEOUT_FRAMES = 2 * TICK_RATE; // 2 seconds to keep combo
+export const START_LIVES = 3;
+export const EXTRA_LIFE_SCORE = 25000; // One extra life every this many points
+const MAX_LIVES = 9;
+const HIT_INVULN_TICKS = 45; // Grace after a hit, so a lingering collision only counts once
+const RESPAWN_INVULN_TICKS = 3 * TICK_RATE;
+const FORMATION_LEAD_IN = 60; // Ticks of calm before a wave's first formation
+const COMBO_MILESTONE = 10; // Jingle every this many kills in a combo
+const LOW_HP_FRACTION = 0.25; // Hull warning below this share of max HP
+const LOW_HP_WARNING_TICKS = 90; // Ticks between warning beeps
+
+// Pool sizes. Projectiles are gameplay and must never run out; particles are
+// further capped by a budget that shrinks while the host reports slow frames.
+const MAX_PROJECTILES = 8192;
+const MAX_PARTICLES = 1500;
+const MAX_FLOATING_TEXTS = 64;
+const MIN_PARTICLE_BUDGET = 200;
+const SLOW_FRAME_MS = 2 * TICK_MS; // Frame time at which the particle budget bottoms out
+
+// Independent RNG streams derived from the sortie seed
+const GAMEPLAY_STREAM = 0;
+const COSMETIC_STREAM = 1;
+
+// What the collision grids hold: anything the player or their shots can touch,
+// by its index in the engine's list for this tick. One grid per kind so a shot's
+// query never wades through the bullets sharing its cells. Boss sub-parts are
+// filed apart from the hull, since they can reach beyond its shape.
+type ColliderKind = 'enemy' | 'part' | 'bullet' | 'powerup';
+
+interface Collider {
+  index: number;
+  box: Hitbox;
+  part?: number; // 'part' colliders: index into the boss's parts
+}
+
+// Optional hooks so the host (React, tests) can observe the simulation
+export interface EngineCallbacks {
+  onScore?: (score: number) => void;
+  onCombo?: (combo: number) => void;
+  onHealth?: (hp: number) => void;
+  onGameOver?: (stats: GameStats) => void;
+  onWaveStart?: (wave: number) => void;
+}
+
+// Pooled objects keep their vectors; spawning overwrites them in place
+const setVector = (v: Vector2D, x: number, y: number) => {
+  v.x = x;
+  v.y = y;
+};
+
+const createPlayer = (config: PlayerConfig): Entity => {
+  const loadoutId = config.loadout ?? DEFAULT_LOADOUT;
+  const loadout = LOADOUTS[loadoutId];
+  const maxHp = upgradeValue(config.upgrades, 'HULL');
+  return {
+    id: 'player',
+    pos: { x: 0, y: 0 },
+    size: { x: 40, y: 48 },
+    velocity: { x: 0, y: 0 },
+    color: config.color,
+    hp: maxHp,
+    maxHp,
+    lives: START_LIVES,
+    extraLives: 0,
+    type: 'player',
+    weaponType: loadout.weaponType,
+    weaponLevel: startingWeaponLevel(loadoutId, config.upgrades),
+    missiles: MISSILE_AMMO,
+    bombs: loadout.bombs,
+    secondaryCooldown: 0,
+    charge: 0,
+    invulnTimer: 0,
+    effects: {},
+    shieldHits: 0,
+    scoreValue: 0,
+    hitTimer: 0,
+    bankAngle: 0
+  };
+};
+
+// Exhaust color per propulsion core, by tick
+const TRAIL_COLORS: Record<TrailType, (frame: number) => string> = {
+  standard: () => '#3b82f6',
+  plasma: () => '#22d3ee',
+  turbo: () => '#fbbf24',
+  ember: frame => (frame % 6 < 3 ? '#f97316' : '#dc2626'),
+  prism: frame => `hsl(${(frame * 6) % 360}, 90%, 60%)`
+};
+
+const createStats = (): GameStats => ({
+  score: 0,
+  wave: 1,
+  enemiesDestroyed: 0,
+  shotsFired: 0,
+  combo: 0,
+  maxCombo: 0,
+  mission: {
+    type: 'ELIMINATION',
+    description: 'INIT',
+    targetValue: 0,
+    currentValue: 0,
+    isComplete: false
+  }
+});
+
+/**
+ * Headless simulation of a sortie. Owns every gameplay entity and the run
+ * statistics; knows nothing about canvases or React. The host feeds it the
+ * playfield size and an input each frame, then reads state back for rendering.
+ */
+export class GameEngine {
+  private width: number;
+  private height: number;
+  private config: PlayerConfig;
+  private callbacks: EngineCallbacks;
+
+  private player: Entity;
+  private enemies: Entity[] = [];
+  private powerups: Entity[] = [];
+  private projectiles = new Pool<Projectile>(MAX_PROJECTILES, () => ({
+    id: '', pos: { x: 0, y: 0 }, velocity: { x: 0, y: 0 }, isPlayer: false, damage: 0, color: '', size: 0
+  }));
+  private particles = new Pool<Particle>(MAX_PARTICLES, slot => ({
+    id: `fx-${slot}`, pos: { x: 0, y: 0 }, velocity: { x: 0, y: 0 }, life: 0, maxLife: 0, color: '', size: 0
+  }));
+  private floatingTexts = new Pool<FloatingText>(MAX_FLOATING_TEXTS, slot => ({
+    id: `text-${slot}`, text: '', pos: { x: 0, y: 0 }, velocity: { x: 0, y: 0 }, life: 0, color: '', size: 0
+  }));
+  private stats: GameStats = createStats();
+
+  // Gameplay rolls (waves, drops, missions) vs. visual-only rolls (particles)
+  private seed: number;
+  private rng: Random;
+  private fxRng: Random;
+  private nextEntityId = 0;
+
+  private frameCount = 0;
+  private comboTimer = 0;
+  private waveTransitionTimer = 0;
+  private waveTick = 0; // Ticks since the current wave started; drives campaign schedules
+  private shakeIntensity = 0;
+  private bombFlash = 0;
+
+  // Smoothed real frame time from the host, and how many particles it can afford
+  private frameTime = TICK_MS;
+  private particleBudget = MAX_PARTICLES;
+
+  // Authored stages; null flies the procedural generator
+  private campaign: Campaign | null = null;
+
+  // Scripted formations: next launch countdown, position in the wave's sequence,
+  // and members waiting for their delayed launch
+  private formationTimer = FORMATION_LEAD_IN;
+  private formationIndex = 0;
+  private spawnQueue: PendingSpawn[] = [];
+
+  // Bullet patterns mid-fire (delayed bursts, spirals), see engine/patterns.ts
+  private emitters: Emitter[] = [];
+
+  // Broadphase, refilled every tick so collisions only test near neighbours
+  private grids: Record<ColliderKind, SpatialGrid<Collider>>;
+
+  constructor(width: number, height: number, config: PlayerConfig, callbacks: EngineCallbacks = {}, seed: number = randomSeed()) {
+    this.width = width;
+    this.height = height;
+    this.config = config;
+    this.callbacks = callbacks;
+    this.grids = {
+      enemy: new SpatialGrid(width, height),
+      part: new SpatialGrid(width, height),
+      bullet: new SpatialGrid(width, height),
+      powerup: new SpatialGrid(width, height)
+    };
+    this.player = createPlayer(config);
+    this.seed = seed;
+    this.rng = new Random(deriveSeed(seed, GAMEPLAY_STREAM));
+    this.fxRng = new Random(deriveSeed(seed, COSMETIC_STREAM));
+  }
+
+  // --- Host wiring ---
+
+  // Hosts call this every frame; only an actual size change rebuilds the grids
+  resize(width: number, height: number) {
+    if (width === this.width && height === this.height) return;
+    this.width = width;
+    this.height = height;
+    Object.values(this.grids).forEach(grid => grid.resize(width, height));
+  }
+
+  setConfig(config: PlayerConfig) {
+    this.config = config;
+    this.player.color = config.color;
+  }
+
+  /**
+   * Real time the host's last frame took, in ms. A steady 60 fps (or better)
+   * allows the full particle pool; slower frames shrink it towards the minimum.
+   */
+  reportFrameTime(ms: number) {
+    this.frameTime += (Math.min(ms, 4 * SLOW_FRAME_MS) - this.frameTime) * 0.1;
+    const slowness = Math.max(0, Math.min(1, (this.frameTime - TICK_MS * 1.1) / (SLOW_FRAME_MS - TICK_MS * 1.1)));
+    this.particleBudget = Math.round(MAX_PARTICLES - slowness * (MAX_PARTICLES - MIN_PARTICLE_BUDGET));
+  }
+
+  setCallbacks(callbacks: EngineCallbacks) {
+    this.callbacks = callbacks;
+  }
+
+  /** Campaign for the next run; takes effect on `reset()` / `restore()`. */
+  setCampaign(campaign: Campaign | null) {
+    this.campaign = campaign;
+  }
+
+  /**
+   * Clears the run back to a fresh wave 1 with a full-health player.
+   * A given seed plus the same inputs always replays the same sortie.
+   */
+  reset(seed: number = randomSeed()) {
+    this.seed = seed;
+    this.rng = new Random(deriveSeed(seed, GAMEPLAY_STREAM));
+    this.fxRng = new Random(deriveSeed(seed, COSMETIC_STREAM));
+    this.nextEntityId = 0;
+    this.player = createPlayer(this.config);
+    this.enemies = [];
+    this.projectiles.clear();
+    this.particles.clear();
+    this.powerups = [];
+    this.floatingTexts.clear();
+    this.stats = createStats();
+    this.frameCount = 0;
+    this.waveTransitionTimer = 0;
+    this.waveTick = 0;
+    this.shakeIntensity = 0;
+    this.bombFlash = 0;
+    this.comboTimer = 0;
+    this.formationTimer = FORMATION_LEAD_IN;
+    this.formationIndex = 0;
+    this.spawnQueue = [];
+    this.emitters = [];
+    this.callbacks.onScore?.(0);
+    this.callbacks.onCombo?.(0);
+    this.callbacks.onHealth?.(this.player.hp);
+  }
+
+  // --- Snapshot getters ---
+
+  getPlayer(): Readonly<Entity> { return this.player; }
+  getEnemies(): readonly Entity[] { return this.enemies; }
+  getPowerUps(): readonly Entity[] { return this.powerups; }
+  getProjectiles(): readonly Projectile[] { return this.projectiles.items; }
+  getParticles(): readonly Particle[] { return this.particles.items; }
+  getFloatingTexts(): readonly FloatingText[] { return this.floatingTexts.items; }
+  getStats(): Readonly<GameStats> { return this.stats; }
+  getFrame() { return this.frameCount; }
+  getSeed() { return this.seed; }
+  getCampaign() { return this.campaign; }
+
+  /** Whether `wave` is a boss fight, per the loaded campaign or the procedural rotation. */
+  isBossWave(wave: number): boolean {
+    const scripted = campaignWave(this.campaign, wave);
+    return scripted ? scripted.mission.type === 'BOSS' : wave % BOSS_WAVE_INTERVAL === 0;
+  }
+
+  getSnapshot(): EngineSnapshot {
+    return {
+      frame: this.frameCount,
+      width: this.width,
+      height: this.height,
+      player: this.player,
+      enemies: this.enemies,
+      powerups: this.powerups,
+      projectiles: this.projectiles.items,
+      particles: this.particles.items,
+      floatingTexts: this.floatingTexts.items,
+      stats: this.stats,
+      shakeIntensity: this.shakeIntensity,
+      waveTransitionTimer: this.waveTransitionTimer,
+      bombFlash: this.bombFlash
+    };
+  }
+
+  // --- Save / restore ---
+
+  /** Deep copy of the gameplay state; safe to JSON-serialize. */
+  serialize(): EngineState {
+    return JSON.parse(JSON.stringify({
+      seed: this.seed,
+      rngState: this.rng.getState(),
+      fxRngState: this.fxRng.getState(),
+      nextEntityId: this.nextEntityId,
+      frame: this.frameCount,
+      comboTimer: this.comboTimer,
+      waveTransitionTimer: this.waveTransitionTimer,
+      waveTick: this.waveTick,
+      formationTimer: this.formationTimer,
+      formationIndex: this.formationIndex,
+      spawnQueue: this.spawnQueue,
+      emitters: this.emitters,
+      player: this.player,
+      enemies: this.enemies,
+      powerups: this.powerups,
+      projectiles: this.projectiles.items,
+      stats: this.stats
+    }));
+  }
+
+  /** Puts the engine back exactly where `serialize()` left it. */
+  restore(state: EngineState) {
+    const copy: EngineState = JSON.parse(JSON.stringify(state));
+    this.seed = copy.seed;
+    this.rng.setState(copy.rngState);
+    this.fxRng.setState(copy.fxRngState);
+    this.nextEntityId = copy.nextEntityId;
+    this.frameCount = copy.frame;
+    this.comboTimer = copy.comboTimer;
+    this.waveTransitionTimer = copy.waveTransitionTimer;
+    this.waveTick = copy.waveTick;
+    this.formationTimer = copy.formationTimer;
+    this.formationIndex = copy.formationIndex;
+    this.spawnQueue = copy.spawnQueue;
+    this.emitters = copy.emitters;
+    this.player = copy.player;
+    this.player.color = this.config.color;
+    this.enemies = copy.enemies;
+    this.powerups = copy.powerups;
+    this.projectiles.replace(copy.projectiles);
+    this.particles.clear();
+    this.floatingTexts.clear();
+    this.stats = copy.stats;
+    this.shakeIntensity = 0;
+    this.bombFlash = 0;
+    this.callbacks.onScore?.(this.stats.score);
+    this.callbacks.onCombo?.(this.stats.combo);
+    this.callbacks.onHealth?.(this.player.hp);
+  }
+
+  // --- Spawning ---
+
+  private createId(prefix: string) {
+    return `${prefix}-${this.nextEntityId++}`;
+  }
+
+  private addShake(intensity: number) {
+    this.shakeIntensity = Math.min(this.shakeIntensity + intensity, 30);
+  }
+
+  private setCombo(combo: number) {
+    this.stats.combo = combo;
+    this.callbacks.onCombo?.(combo);
+    if (combo > 0 && combo % COMBO_MILESTONE === 0) playComboMilestone(combo);
+  }
+
+  // Stereo position for a sound coming from `x`
+  private pan(x: number) {
+    return panAt(x, this.width);
+  }
+
+  private initMission(wave: number) {
+    const scripted = campaignWave(this.campaign, wave);
+    let type: MissionType = 'ELIMINATION';
+    let target = 10 + (wave * 2);
+    let description: string;
+    let bossId: BossId | undefined;
+
+    if (scripted) {
+      type = scripted.mission.type;
+      target = type === 'BOSS' ? 1 : scripted.mission.target!;
+      if (type === 'BOSS') bossId = scripted.boss || bossForEncounter(Math.floor(wave / BOSS_WAVE_INTERVAL));
+      description = scripted.mission.description || describeMission(type, target, bossId);
+    } else {
+      if (wave % BOSS_WAVE_INTERVAL === 0) {
+        type = 'BOSS';
+        target = 1;
+        bossId = bossForEncounter(wave / BOSS_WAVE_INTERVAL);
+      } else {
+        const rand = this.rng.next();
+        if (wave > 2 && rand > 0.6) {
+          type = 'SURVIVAL';
+          target = 30 + (Math.min(wave, 10) * 2); // Seconds
+        }
+      }
+      description = describeMission(type, target, bossId);
+    }
+
+    this.stats.mission = {
+      type,
+      description,
+      targetValue: target,
+      currentValue: 0,
+      isComplete: false,
+      timer: 0,
+      bossId
+    };
+  }
+
+  private spawnBoss(wave: number, bossId: BossId) {
+    const def = BOSS_ROSTER[bossId];
+    const hp = def.hp + (wave * 150);
+    const size = { ...def.size };
+
+    this.enemies.push({
+      id: `boss-${wave}`,
+      pos: { x: this.width / 2 - size.x / 2, y: -150 },
+      size,
+      velocity: { x: 0, y: 0 },
+      hp,
+      maxHp: hp,
+      type: 'boss',
+      bossId,
+      color: def.color,
+      scoreValue: def.score * Math.ceil(wave / 5),
+      parts: def.parts.map(part => ({ ...part, offset: { ...part.offset }, size: { ...part.size }, maxHp: part.hp, hitTimer: 0 })),
+      phase: 1,
+      phaseTimer: 0,
+      attackTimer: 0,
+      moveTimer: 0,
+      hitTimer: 0,
+      rotation: 0
+    });
+  }
+
+  private spawnEnemy(type: EnemyType = rollEnemyType(this.stats.wave, this.rng), path?: EnemyPath) {
+    const archetype = ENEMY_ARCHETYPES[type];
+    const size = { ...archetype.size };
+
+    let pos: Vector2D;
+    if (path) {
+      const start = evaluatePath(path, 0, this.width, this.height);
+      pos = { x: start.x - size.x / 2, y: start.y - size.y / 2 };
+    } else {
+      pos = { x: this.rng.range(0, this.width - size.x), y: -50 };
+    }
+
+    const enemy: Entity = {
+      id: this.createId('enemy'),
+      pos,
+      path,
+      pathTime: path ? 0 : undefined,
+      size,
+      velocity: { x: 0, y: archetype.speed + (this.stats.wave * 0.1) },
+      hp: archetype.hp,
+      maxHp: archetype.hp,
+      type,
+      color: archetype.color,
+      scoreValue: archetype.score,
+      hitTimer: 0,
+      rotation: 0
+    };
+    this.enemies.push(enemy);
+    return enemy;
+  }
+
+  private queueFormation(formation: FormationType) {
+    buildFormation(formation, this.stats.wave, this.rng).forEach(member => {
+      this.spawnQueue.push({ at: this.frameCount + member.delay, type: member.type, path: member.path });
+    });
+  }
+
+  // Launches the next formation of the wave's sequence when due, then releases
+  // any queued members whose delay has elapsed
+  private updateFormations() {
+    const wave = this.stats.wave;
+    this.formationTimer--;
+    if (this.formationTimer <= 0) {
+      const sequence = formationSequence(wave);
+      this.queueFormation(sequence[this.formationIndex % sequence.length]);
+      this.formationIndex++;
+      const interval = formationInterval(wave);
+      this.formationTimer = this.stats.mission.type === 'SURVIVAL' ? Math.floor(interval * 0.7) : interval;
+    }
+
+    this.releaseSpawnQueue();
+  }
+
+  private releaseSpawnQueue() {
+    if (this.spawnQueue.length === 0) return;
+    const due = this.spawnQueue.filter(spawn => spawn.at <= this.frameCount);
+    if (due.length === 0) return;
+    this.spawnQueue = this.spawnQueue.filter(spawn => spawn.at > this.frameCount);
+    due.forEach(spawn => this.spawnEnemy(spawn.type, spawn.path));
+  }
+
+  // Fires the campaign wave's schedules and one-off events that fall on this tick
+  private runCampaignWave(wave: CampaignWave) {
+    const tick = this.waveTick;
+    const toTicks = (seconds: number) => Math.round(seconds * TICK_RATE);
+
+    wave.spawns.forEach(spawn => {
+      const start = toTicks(spawn.start ?? 0);
+      const every = Math.max(1, toTicks(spawn.every));
+      if (tick < start || (spawn.end !== undefined && tick > toTicks(spawn.end))) return;
+      if ((tick - start) % every === 0) this.spawnEnemy(spawn.enemy);
+    });
+
+    wave.events.forEach(event => {
+      if (toTicks(event.at) !== tick) return;
+      switch (event.kind) {
+        case 'formation':
+          this.queueFormation(event.formation);
+          break;
+        case 'enemy': {
+          const enemy = this.spawnEnemy(event.enemy);
+          enemy.pos.x = Math.max(0, Math.min(this.width - enemy.size.x, event.x * this.width - enemy.size.x / 2));
+          break;
+        }
+        case 'powerup':
+          this.spawnPowerUp(event.x * this.width - 12, -30);
+          break;
+        case 'message':
+          this.spawnFloatingText(this.width / 2, this.height / 3, event.text, '#facc15');
+          break;
+      }
+    });
+
+    this.releaseSpawnQueue();
+  }
+
+  private hitBossPart(boss: Entity, part: BossPart, damage: number) {
+    part.hp -= damage;
+    part.hitTimer = 5;
+    if (part.hp <= 0) {
+      const b = partBounds(boss, part);
+      const bonus = BOSS_ROSTER[boss.bossId || 'dreadnought'].partScore * this.scoreMultiplier();
+      this.stats.score += bonus;
+      this.callbacks.onScore?.(this.stats.score);
+      playExplosion(false, this.pan(b.x + b.w / 2));
+      this.addShake(8);
+      this.spawnExplosion(b.x + b.w / 2, b.y + b.h / 2, boss.color, 12);
+      this.spawnFloatingText(b.x + b.w / 2, b.y, `+${bonus}`, '#facc15');
+    }
+  }
+
+  private createEnemyContext(): EnemyContext {
+    return {
+      player: this.player,
+      width: this.width,
+      height: this.height,
+      wave: this.stats.wave,
+      frame: this.frameCount,
+      rng: this.rng,
+      emit: (pattern, source, options) => this.emitPattern(pattern, source, options)
+    };
+  }
+
+  private spawnFloatingText(x: number, y: number, text: string, color: string = '#ffffff') {
+    const ft = this.floatingTexts.acquire();
+    if (!ft) return;
+    ft.text = text;
+    setVector(ft.pos, x, y);
+    setVector(ft.velocity, 0, -1.5);
+    ft.prevPos = undefined;
+    ft.life = 1.0;
+    ft.color = color;
+    ft.size = 14;
+  }
+
+  private spawnPowerUp(x: number, y: number) {
+    const pType = rollPowerUp(this.stats.wave, this.rng);
+    const color = POWERUPS[pType].color;
+
+    this.powerups.push({
+      id: this.createId('powerup'),
+      pos: { x, y },
+      size: { x: 24, y: 24 },
+      velocity: { x: 0, y: 2 },
+      hp: 1,
+      maxHp: 1,
+      type: 'powerup',
+      powerUpType: pType,
+      color: color,
+      scoreValue: 0,
+      rotation: 0
+    });
+  }
+
+  // Dropped silently once the budget is spent. Callers roll fxRng either way,
+  // so the cosmetic stream doesn't depend on the host's frame rate.
+  private spawnParticle(x: number, y: number, vx: number, vy: number, life: number, color: string, size: number) {
+    if (this.particles.items.length >= this.particleBudget) return;
+    const part = this.particles.acquire();
+    if (!part) return;
+    setVector(part.pos, x, y);
+    setVector(part.velocity, vx, vy);
+    part.prevPos = undefined;
+    part.life = life;
+    part.maxLife = life;
+    part.color = color;
+    part.size = size;
+  }
+
+  private spawnExplosion(x: number, y: number, color: string, count: number) {
+    for (let i = 0; i < count; i++) {
+      const angle = this.fxRng.next() * Math.PI * 2;
+      const speed = this.fxRng.next() * 3 + 1;
+      const size = this.fxRng.next() * 3 + 1;
+      this.spawnParticle(x, y, Math.cos(angle) * speed, Math.sin(angle) * speed, 1.0, color, size);
+    }
+  }
+
+  private spawnMuzzleFlash(x: number, y: number, type: WeaponType) {
+    const addP = (vx: number, vy: number, color: string, size: number, life: number) =>
+      this.spawnParticle(x, y, vx, vy, life, color, size);
+
+    if (type === 'BLASTER') {
+      for (let i = 0; i < 3; i++) {
+        const angle = Math.PI + this.fxRng.next() * Math.PI;
+        addP(Math.cos(angle) * 2, Math.sin(angle) * 2, '#34d399', 2, 0.3);
+      }
+    } else if (type === 'SPREAD') {
+      for (let i = 0; i < 5; i++) {
+        addP((this.fxRng.next() - 0.5) * 4, -this.fxRng.next() * 4, '#eab308', 3, 0.3);
+      }
+    }
+  }
+
+  private spawnTrailParticles() {
+    const p = this.player;
+    if (p.hp <= 0) return;
+
+    if (this.frameCount % 3 !== 0) return;
+
+    const engineLeftX = p.pos.x + p.size.x * 0.3;
+    const engineRightX = p.pos.x + p.size.x * 0.7;
+    const engineY = p.pos.y + p.size.y - 5;
+
+    const color = (TRAIL_COLORS[this.config.trailType] ?? TRAIL_COLORS.standard)(this.frameCount);
+    const spawnAt = (x: number, y: number) => {
+      const px = x + (this.fxRng.next() * 4 - 2);
+      const vx = (this.fxRng.next() - 0.5) * 0.5;
+      const vy = this.fxRng.next() * 3 + 2;
+      this.spawnParticle(px, y, vx, vy, 0.6, color, this.fxRng.next() * 3 + 1);
+    };
+
+    spawnAt(engineLeftX, engineY);
+    spawnAt(engineRightX, engineY);
+  }
+
+  private fireWeapon() {
+    const p = this.player;
+    const weapon = p.weaponType || 'BLASTER';
+    const stats = weaponLevel(weapon, p.weaponLevel || 1);
+    const color = WEAPONS[weapon].color;
+
+    playShoot(weapon, this.pan(p.pos.x + p.size.x / 2));
+    this.stats.shotsFired++;
+
+    const noseX = p.pos.x + p.size.x / 2;
+    const noseY = p.pos.y;
+    this.spawnMuzzleFlash(noseX, noseY, weapon);
+
+    stats.shots.forEach(shot => {
+      this.spawnProjectile(noseX + shot.dx - stats.size / 2, noseY - stats.size, shot.vx, shot.vy, true, stats.damage, color, stats.size, weapon);
+    });
+  }
+
+  // Same weapon: level up. Different weapon: switch, keeping the current level.
+  private collectWeapon(weapon: PlayerWeaponType) {
+    const p = this.player;
+    const level = p.weaponLevel || 1;
+    if (p.weaponType === weapon) {
+      p.weaponLevel = Math.min(MAX_WEAPON_LEVEL, level + 1);
+    } else {
+      p.weaponType = weapon;
+      p.weaponLevel = Math.min(WEAPONS[weapon].levels.length, level);
+    }
+  }
+
+  // A hit costs one level; losing the last one falls back to the blaster
+  private downgradeWeapon() {
+    const p = this.player;
+    const level = p.weaponLevel || 1;
+    if (level > 1) {
+      p.weaponLevel = level - 1;
+    } else {
+      p.weaponType = 'BLASTER';
+      p.weaponLevel = 1;
+    }
+  }
+
+  // --- Secondary weapons ---
+
+  // Closest live, on-screen enemy to a point; what player missiles steer towards
+  private nearestEnemy(pos: Vector2D): Entity | undefined {
+    let nearest: Entity | undefined;
+    let best = Infinity;
+    this.enemies.forEach(e => {
+      if (e.hp <= 0 || e.pos.y + e.size.y < 0) return;
+      const dx = e.pos.x + e.size.x / 2 - pos.x;
+      const dy = e.pos.y + e.size.y / 2 - pos.y;
+      const dist = dx * dx + dy * dy;
+      if (dist < best) {
+        best = dist;
+        nearest = e;
+      }
+    });
+    return nearest;
+  }
+
+  // The secondary trigger fires on release: missiles after a tap, a charge shot
+  // after a long hold. Charge only builds while the slot is off cooldown.
+  private updateSecondary(input: EngineInput) {
+    const p = this.player;
+    if (p.secondaryCooldown && p.secondaryCooldown > 0) p.secondaryCooldown--;
+    if (input.bomb) this.dropBomb();
+
+    if (input.secondary) {
+      if (!p.secondaryCooldown) p.charge = (p.charge || 0) + 1;
+      return;
+    }
+
+    const held = p.charge || 0;
+    p.charge = 0;
+    if (held === 0) return;
+    if (held >= CHARGE_MIN_TICKS) {
+      this.fireChargeShot(held);
+    } else {
+      this.fireMissiles();
+    }
+  }
+
+  private fireMissiles() {
+    const p = this.player;
+    const salvo = Math.min(MISSILE_SALVO, p.missiles || 0);
+    if (salvo === 0) {
+      this.spawnFloatingText(p.pos.x + p.size.x / 2, p.pos.y - 10, 'NO MISSILES', '#9ca3af');
+      return;
+    }
+
+    p.missiles = (p.missiles || 0) - salvo;
+    p.secondaryCooldown = MISSILE_COOLDOWN;
+    playShoot('MISSILE', this.pan(p.pos.x + p.size.x / 2));
+    this.stats.shotsFired++;
+
+    for (let i = 0; i < salvo; i++) {
+      const side = i % 2 === 0 ? -1 : 1;
+      const heading = -Math.PI / 2 + side * 0.6;
+      const speed = 3;
+      const missile = this.spawnProjectile(
+        p.pos.x + p.size.x / 2 + side * 14 - 3, p.pos.y + 16, Math.cos(heading) * speed, Math.sin(heading) * speed,
+        true, MISSILE_DAMAGE, MISSILE_COLOR, 6, 'MISSILE'
+      );
+      if (!missile) continue;
+      missile.motion = MISSILE_MOTION;
+      missile.age = 0;
+      missile.heading = heading;
+      missile.speed = speed;
+      missile.accel = MISSILE_MOTION.accel;
+    }
+  }
+
+  private fireChargeShot(held: number) {
+    const p = this.player;
+    const shot = chargeShot(held);
+    p.secondaryCooldown = CHARGE_COOLDOWN;
+    playShoot('PLASMA', this.pan(p.pos.x + p.size.x / 2));
+    this.stats.shotsFired++;
+    this.addShake(3 + shot.power * 5);
+
+    const proj = this.spawnProjectile(
+      p.pos.x + p.size.x / 2 - shot.size / 2, p.pos.y - shot.size, 0, -10, true, shot.damage, CHARGE_COLOR, shot.size, 'CHARGE'
+    );
+    if (!proj) return;
+    proj.pierce = true;
+    proj.hitIds = [];
+  }
+
+  // Cancels every enemy bullet, hits everything on screen and grants brief immunity
+  private dropBomb() {
+    const p = this.player;
+    if (!p.bombs || p.bombs <= 0) return;
+
+    p.bombs--;
+    p.invulnTimer = BOMB_INVULN_TICKS;
+    this.bombFlash = BOMB_FLASH_TICKS;
+    this.addShake(25);
+    playExplosion(true);
+
+    this.projectiles.retain(proj => {
+      if (proj.isPlayer) return true;
+      this.spawnExplosion(proj.pos.x + proj.size / 2, proj.pos.y + proj.size / 2, proj.color, 2);
+      return false;
+    });
+    this.emitters = [];
+
+    this.enemies.forEach(e => {
+      if (e.hp <= 0 || e.pos.y + e.size.y < 0) return;
+      if (e.phaseTimer && e.phaseTimer > 0) return;
+      e.hp -= BOMB_DAMAGE;
+      e.hitTimer = 5;
+      if (e.hp <= 0) this.destroyEnemy(e);
+    });
+  }
+
+  private spawnEnemyBullet(x: number, y: number, heading: number, speed: number, type: WeaponType, motion?: BulletMotion) {
+    const color = motion?.homing ? '#f97316' : '#ef4444';
+    const proj = this.spawnProjectile(x - 5, y, Math.cos(heading) * speed, Math.sin(heading) * speed, false, 15, color, 8, type);
+    if (!proj || !motion) return;
+    proj.motion = motion;
+    proj.age = 0;
+    proj.heading = heading;
+    proj.speed = speed;
+    proj.accel = motion.accel;
+  }
+
+  // Recycled projectile with its optional fields cleared; callers set any extras
+  private spawnProjectile(
+    x: number, y: number, vx: number, vy: number, isPlayer: boolean, damage: number, color: string, size: number, type: WeaponType
+  ): Projectile | undefined {
+    const proj = this.projectiles.acquire();
+    if (!proj) return undefined;
+    proj.id = this.createId('shot');
+    setVector(proj.pos, x, y);
+    setVector(proj.velocity, vx, vy);
+    proj.prevPos = undefined;
+    proj.isPlayer = isPlayer;
+    proj.damage = damage;
+    proj.color = color;
+    proj.size = size;
+    proj.type = type;
+    proj.motion = undefined;
+    proj.age = undefined;
+    proj.heading = undefined;
+    proj.speed = undefined;
+    proj.accel = undefined;
+    proj.pierce = undefined;
+    proj.hitIds = undefined;
+    return proj;
+  }
+
+  private emitPattern(pattern: PatternId, source: Entity, options: EmitOptions = {}) {
+    this.emitters.push({
+      pattern,
+      sourceId: source.id,
+      offset: options.offset ? { ...options.offset } : { x: 0, y: 0 },
+      angle: options.angle,
+      count: options.count,
+      volley: 0,
+      timer: BULLET_PATTERNS[pattern].delay
+    });
+  }
+
+  // Fires due volleys; an emitter stops with its last volley or when its source dies
+  private stepEmitters() {
+    if (this.emitters.length === 0) return;
+    const volleyCtx = {
+      player: this.player,
+      width: this.width,
+      rng: this.rng,
+      spawn: (x: number, y: number, heading: number, speed: number, type: WeaponType, motion?: BulletMotion) =>
+        this.spawnEnemyBullet(x, y, heading, speed, type, motion)
+    };
+
+    this.emitters = this.emitters.filter(em => {
+      const source = this.enemies.find(e => e.id === em.sourceId);
+      if (!source || source.hp <= 0) return false;
+      if (em.timer > 0) {
+        em.timer--;
+        return true;
+      }
+
+      const pattern = BULLET_PATTERNS[em.pattern as PatternId];
+      const origin = {
+        x: source.pos.x + source.size.x / 2 + em.offset.x,
+        y: source.pos.y + source.size.y / 2 + em.offset.y
+      };
+      fireVolley(pattern, em, origin, volleyCtx);
+      if (pattern.sound) playEnemyShot(pattern.sound, this.pan(origin.x));
+
+      em.volley++;
+      if (em.volley >= pattern.shots) return false;
+      em.timer = pattern.interval - 1;
+      return true;
+    });
+  }
+
+  // Score, combo, mission progress and drops for an enemy brought to 0 HP
+  private destroyEnemy(enemy: Entity) {
+    const mission = this.stats.mission;
+    const cx = enemy.pos.x + enemy.size.x / 2;
+    playEnemyDeath(ENEMY_ARCHETYPES[enemy.type as EnemyType].deathSound, this.pan(cx));
+    this.addShake(enemy.type === 'boss' ? 20 : 5);
+
+    this.comboTimer = COMBO_TIMEOUT_FRAMES;
+    this.setCombo(this.stats.combo + 1);
+    if (this.stats.combo > this.stats.maxCombo) {
+      this.stats.maxCombo = this.stats.combo;
+    }
+
+    const multiplier = Math.min(3, 1 + (this.stats.combo * 0.1));
+    const finalScore = Math.floor(enemy.scoreValue * multiplier) * this.scoreMultiplier();
+
+    this.stats.score += finalScore;
+    this.stats.enemiesDestroyed++;
+    this.callbacks.onScore?.(this.stats.score);
+
+    this.spawnExplosion(enemy.pos.x + enemy.size.x / 2, enemy.pos.y + enemy.size.y / 2, enemy.color, enemy.type === 'boss' ? 20 : 8);
+    this.spawnFloatingText(enemy.pos.x + enemy.size.x / 2, enemy.pos.y, `+${finalScore}`, '#facc15');
+
+    if (this.stats.combo > 1) {
+      this.spawnFloatingText(enemy.pos.x + enemy.size.x / 2, enemy.pos.y - 15, `${this.stats.combo}x COMBO`, '#22d3ee');
+    }
+
+    if (mission.type === 'ELIMINATION' && !mission.isComplete) {
+      mission.currentValue++;
+    }
+
+    if (enemy.type === 'boss') {
+      mission.isComplete = true;
+      playPowerUp(this.pan(cx));
+      this.spawnPowerUp(enemy.pos.x + enemy.size.x / 2 - 10, enemy.pos.y + enemy.size.y / 2);
+      this.spawnPowerUp(enemy.pos.x + enemy.size.x / 2 + 20, enemy.pos.y + enemy.size.y / 2);
+    } else if (this.rng.chance(upgradeValue(this.config.upgrades, 'SALVAGE'))) {
+      this.spawnPowerUp(enemy.pos.x + enemy.size.x / 2 - 10, enemy.pos.y + enemy.size.y / 2);
+    }
+  }
+
+  // --- Timed powerups ---
+
+  private hasEffect(type: TimedPowerUpType) {
+    return !!this.player.effects?.[type];
+  }
+
+  private scoreMultiplier() {
+    return this.hasEffect('SCORE_X2') ? SCORE_MULTIPLIER : 1;
+  }
+
+  // Enemy and enemy-bullet speed this tick; the pilot's own ship and shots are unaffected
+  private timeScale() {
+    return this.hasEffect('SLOW') ? SLOW_FACTOR : 1;
+  }
+
+  // Picking up an active powerup restarts its timer (and recharges a shield)
+  private startEffect(type: TimedPowerUpType) {
+    const p = this.player;
+    p.effects = { ...p.effects, [type]: Math.round((POWERUPS[type].seconds || 0) * TICK_RATE) };
+    if (type === 'SHIELD') p.shieldHits = SHIELD_HITS;
+  }
+
+  private stepEffects() {
+    const effects = this.player.effects;
+    if (!effects) return;
+    (Object.keys(effects) as TimedPowerUpType[]).forEach(type => {
+      const left = (effects[type] || 0) - 1;
+      if (left > 0) {
+        effects[type] = left;
+        return;
+      }
+      delete effects[type];
+      if (type === 'SHIELD') this.player.shieldHits = 0;
+    });
+  }
+
+  // A shield soaks up one hit instead of the hull; false when there is none left
+  private absorbHit() {
+    const p = this.player;
+    if (!p.shieldHits || p.shieldHits <= 0) return false;
+
+    p.shieldHits--;
+    if (p.shieldHits <= 0 && p.effects) delete p.effects.SHIELD;
+    p.invulnTimer = Math.max(p.invulnTimer || 0, HIT_INVULN_TICKS);
+    this.addShake(4);
+    this.spawnExplosion(p.pos.x + p.size.x / 2, p.pos.y + p.size.y / 2, POWERUPS.SHIELD.color, 8);
+    return true;
+  }
+
+  private damagePlayer() {
+    const p = this.player;
+    this.downgradeWeapon();
+    this.callbacks.onHealth?.(p.hp);
+    playPlayerHit(this.pan(p.pos.x + p.size.x / 2));
+    this.setCombo(0);
+    p.invulnTimer = Math.max(p.invulnTimer || 0, HIT_INVULN_TICKS);
+
+    if (p.hp <= 0) {
+      // Saves from before lives existed are on their last ship
+      p.lives = Math.max(0, (p.lives ?? 1) - 1);
+      if (p.lives > 0) {
+        this.respawnPlayer();
+        return;
+      }
+      playGameOver();
+      this.callbacks.onGameOver?.(this.stats);
+    }
+  }
+
+  // Losing a ship: blow it up where it was, then bring a fresh one in blinking at the bottom
+  private respawnPlayer() {
+    const p = this.player;
+    const cx = p.pos.x + p.size.x / 2;
+    const cy = p.pos.y + p.size.y / 2;
+    playExplosion(true, this.pan(cx));
+    this.addShake(25);
+    this.spawnExplosion(cx, cy, p.color, 30);
+    this.spawnFloatingText(cx, cy - 30, 'SHIP LOST', '#ef4444');
+
+    p.hp = p.maxHp;
+    p.invulnTimer = RESPAWN_INVULN_TICKS;
+    p.charge = 0;
+    p.pos = { x: this.width / 2 - p.size.x / 2, y: this.height - 100 };
+    p.prevPos = undefined;
+    this.callbacks.onHealth?.(p.hp);
+  }
+
+  // Extra life for every EXTRA_LIFE_SCORE points, however they were scored
+  private checkExtraLife() {
+    const p = this.player;
+    const earned = Math.floor(this.stats.score / EXTRA_LIFE_SCORE);
+    if (earned <= (p.extraLives || 0)) return;
+
+    p.extraLives = earned;
+    if ((p.lives ?? 1) >= MAX_LIVES) return;
+    p.lives = (p.lives ?? 1) + 1;
+    playPowerUp(this.pan(p.pos.x + p.size.x / 2));
+    this.spawnFloatingText(p.pos.x + p.size.x / 2, p.pos.y - 20, '1UP', '#4ade80');
+  }
+
+  // --- Collisions ---
+
+  // Files this tick's enemies, live boss parts, enemy bullets and pickups in the broadphase grids
+  private fillGrids() {
+    const add = (kind: ColliderKind, index: number, box: Hitbox, part?: number) =>
+      this.grids[kind].insert({ index, box, part }, hitboxBounds(box));
+
+    Object.values(this.grids).forEach(grid => grid.clear());
+    this.enemies.forEach((e, i) => {
+      add('enemy', i, enemyHitbox(e));
+      e.parts?.forEach((part, j) => {
+        if (part.hp <= 0) return;
+        const b = partBounds(e, part);
+        add('part', i, rectHitbox(b.x, b.y, b.w, b.h), j);
+      });
+    });
+    this.projectiles.items.forEach((proj, i) => {
+      if (!proj.isPlayer) add('bullet', i, projectileHitbox(proj));
+    });
+    this.powerups.forEach((pu, i) => add('powerup', i, powerUpHitbox(pu)));
+  }
+
+  // Colliders of one kind that `box` actually touches, in list order
+  private touching(box: Hitbox, kind: ColliderKind): Collider[] {
+    return this.grids[kind].search(hitboxBounds(box)).filter(c => hitboxesOverlap(box, c.box));
+  }
+
+  // Remember where everything was so the renderer can blend between ticks
+  private storePreviousPositions() {
+    const store = (e: { pos: Vector2D; prevPos?: Vector2D }) => {
+      if (e.prevPos) {
+        e.prevPos.x = e.pos.x;
+        e.prevPos.y = e.pos.y;
+      } else {
+        e.prevPos = { x: e.pos.x, y: e.pos.y };
+      }
+    };
+    store(this.player);
+    this.enemies.forEach(store);
+    this.powerups.forEach(store);
+    this.projectiles.items.forEach(store);
+    this.particles.items.forEach(store);
+    this.floatingTexts.items.forEach(store);
+  }
+
+  private stepParticles() {
+    this.particles.items.forEach(part => {
+      part.pos.x += part.velocity.x;
+      part.pos.y += part.velocity.y;
+      part.life -= 0.02;
+    });
+    this.particles.retain(p => p.life > 0);
+  }
+
+  // --- Simulation ---
+
+  /** Hangar preview: hovers the ship mid-screen and keeps its trail alive. */
+  stepHangar() {
+    this.storePreviousPositions();
+    this.frameCount++;
+    const p = this.player;
+    const hoverY = (this.height / 2 - p.size.y / 2) + Math.sin(this.frameCount * 0.05) * 10;
+    p.pos.x = this.width / 2 - p.size.x / 2;
+    p.pos.y = hoverY;
+
+    this.spawnTrailParticles();
+    this.stepParticles();
+  }
+
+  /** Advances the sortie by one fixed tick (1 / TICK_RATE seconds). */
+  step(input: EngineInput) {
+    const { width, height } = this;
+    this.storePreviousPositions();
+    this.frameCount++;
+
+    if (this.shakeIntensity > 0) {
+      this.shakeIntensity *= 0.9;
+      if (this.shakeIntensity < 0.5) this.shakeIntensity = 0;
+    }
+    if (this.bombFlash > 0) this.bombFlash--;
+
+    if (this.comboTimer > 0) {
+      this.comboTimer--;
+      if (this.comboTimer <= 0) {
+        this.setCombo(0);
+      }
+    }
+
+    // Initialize Game
+    if (this.frameCount === 1) {
+      this.player.pos = { x: width / 2 - 20, y: height - 100 };
+      this.player.prevPos = undefined;
+      this.initMission(1);
+    }
+
+    // Wave Transition
+    if (this.stats.mission.isComplete) {
+      this.waveTransitionTimer++;
+      if (this.waveTransitionTimer === 1) {
+        playWaveTransition();
+      }
+      if (this.waveTransitionTimer > 120) {
+        this.stats.wave++;
+        this.initMission(this.stats.wave);
+        this.waveTransitionTimer = 0;
+        this.waveTick = 0;
+        this.formationTimer = FORMATION_LEAD_IN;
+        this.formationIndex = 0;
+        this.spawnQueue = [];
+        this.emitters = [];
+        this.projectiles.clear();
+        this.enemies = [];
+        this.player.missiles = MISSILE_AMMO;
+        this.callbacks.onWaveStart?.(this.stats.wave);
+      }
+      return;
+    }
+
+    // Move Player
+    const p = this.player;
+    const target = input.target;
+    const targetX = target.x - p.size.x / 2;
+    const diffX = targetX - p.pos.x;
+
+    const MAX_BANK = 0.4;
+    const targetBank = Math.max(-MAX_BANK, Math.min(MAX_BANK, diffX * 0.02));
+    p.bankAngle = (p.bankAngle || 0) + (targetBank - (p.bankAngle || 0)) * 0.1;
+
+    const lerp = PLAYER_SPEED_LERP * upgradeValue(this.config.upgrades, 'THRUSTERS');
+    p.pos.x += diffX * lerp;
+    p.pos.y += (target.y - p.size.y - 20 - p.pos.y) * lerp;
+
+    p.pos.x = Math.max(0, Math.min(width - p.size.x, p.pos.x));
+    p.pos.y = Math.max(0, Math.min(height - p.size.y, p.pos.y));
+
+    if (p.hitTimer && p.hitTimer > 0) p.hitTimer--;
+    if (p.invulnTimer && p.invulnTimer > 0) p.invulnTimer--;
+    this.stepEffects();
+
+    if (p.hp > 0 && p.hp <= p.maxHp * LOW_HP_FRACTION && this.frameCount % LOW_HP_WARNING_TICKS === 0) {
+      playLowHpWarning();
+    }
+
+    this.spawnTrailParticles();
+
+    // Auto Shoot
+    const baseCooldown = weaponLevel(p.weaponType || 'BLASTER', p.weaponLevel || 1).cooldown;
+    const currentCooldown = Math.max(1, Math.round(baseCooldown * upgradeValue(this.config.upgrades, 'FIRE_RATE')));
+    if (this.frameCount % currentCooldown === 0) {
+      this.fireWeapon();
+    }
+    this.updateSecondary(input);
+
+    // Mission Updates
+    const mission = this.stats.mission;
+    if (mission.type === 'SURVIVAL') {
+      mission.currentValue++;
+      if (mission.currentValue >= mission.targetValue * TICK_RATE) {
+        mission.isComplete = true;
+        playPowerUp();
+      }
+    } else if (mission.type === 'ELIMINATION') {
+      if (mission.currentValue >= mission.targetValue) {
+        mission.isComplete = true;
+        playPowerUp();
+      }
+    }
+
+    // Spawning Logic
+    const currentWave = this.stats.wave;
+    const scripted = campaignWave(this.campaign, currentWave);
+
+    if (mission.type === 'BOSS') {
+      const hasBoss = this.enemies.some(e => e.type === 'boss');
+      if (!hasBoss) {
+        this.spawnBoss(currentWave, mission.bossId || 'dreadnought');
+      }
+      if (scripted) this.runCampaignWave(scripted);
+    } else if (scripted) {
+      this.runCampaignWave(scripted);
+    } else {
+      this.updateFormations();
+
+      // Random stragglers fill the gaps between formations
+      let rate = ENEMY_SPAWN_RATE - Math.floor(this.stats.score / 500);
+      if (mission.type === 'SURVIVAL') {
+        rate = Math.max(15, rate * 0.6);
+      } else {
+        rate = Math.max(20, rate);
+      }
+
+      if (this.frameCount % Math.floor(rate * 2) === 0) {
+        this.spawnEnemy();
+      }
+    }
+
+    // After the schedule ran, so a wave's first tick is tick 0 and `at: 0` events fire
+    this.waveTick++;
+
+    // Update Entities
+    const enemyCtx = this.createEnemyContext();
+    const timeScale = this.timeScale();
+    this.enemies.forEach(e => {
+      if (e.hitTimer && e.hitTimer > 0) e.hitTimer--;
+      if (!isEnemyType(e.type)) return;
+
+      const archetype = ENEMY_ARCHETYPES[e.type];
+      if (e.path) {
+        moveAlongPath(e, width, height, timeScale);
+      } else {
+        // Archetypes move themselves; slow-mo shortens whatever step they took
+        const fromX = e.pos.x;
+        const fromY = e.pos.y;
+        archetype.move(e, enemyCtx);
+        e.pos.x = fromX + (e.pos.x - fromX) * timeScale;
+        e.pos.y = fromY + (e.pos.y - fromY) * timeScale;
+      }
+      archetype.fire?.(e, enemyCtx);
+    });
+
+    const magnet = this.hasEffect('MAGNET');
+    const shipX = p.pos.x + p.size.x / 2;
+    const shipY = p.pos.y + p.size.y / 2;
+    this.powerups.forEach(pu => {
+      const dx = shipX - (pu.pos.x + pu.size.x / 2);
+      const dy = shipY - (pu.pos.y + pu.size.y / 2);
+      const dist = Math.sqrt(dx * dx + dy * dy);
+      if (magnet && dist < MAGNET_RADIUS && dist > 0) {
+        pu.pos.x += (dx / dist) * MAGNET_PULL;
+        pu.pos.y += (dy / dist) * MAGNET_PULL;
+      } else {
+        pu.pos.x += pu.velocity.x;
+        pu.pos.y += pu.velocity.y;
+      }
+      pu.rotation = (pu.rotation || 0) + 0.05;
+    });
+
+    this.stepEmitters();
+
+    this.projectiles.items.forEach(proj => {
+      if (proj.motion) advanceBullet(proj, proj.isPlayer ? this.nearestEnemy(proj.pos) : this.player);
+      const scale = proj.isPlayer ? 1 : timeScale;
+      proj.pos.x += proj.velocity.x * scale;
+      proj.pos.y += proj.velocity.y * scale;
+    });
+
+    this.stepParticles();
+
+    this.floatingTexts.items.forEach(ft => {
+      ft.pos.x += ft.velocity.x;
+      ft.pos.y += ft.velocity.y;
+      ft.life -= 0.02;
+    });
+    this.floatingTexts.retain(ft => ft.life > 0);
+
+    // Collisions: shots against hull shapes, hazards against the player's core only,
+    // pickups against the whole ship (see engine/hitboxes.ts)
+    this.fillGrids();
+    const core = playerCore(p);
+
+    this.projectiles.items.forEach(proj => {
+      if (!proj.isPlayer) return;
+      const shot = projectileHitbox(proj);
+      // Sub-parts shield the hull behind them, so they take the shot first. The grids
+      // were filled before this tick's hits and bomb, so skip anything already destroyed.
+      const hit = [...this.touching(shot, 'part'), ...this.touching(shot, 'enemy')]
+        .find(c => this.enemies[c.index].hp > 0 && !proj.hitIds?.includes(this.enemies[c.index].id)
+          && (c.part === undefined || this.enemies[c.index].parts![c.part].hp > 0));
+
+      if (hit) {
+        const enemy = this.enemies[hit.index];
+        const damage = proj.damage;
+        if (proj.pierce && proj.hitIds) {
+          proj.hitIds.push(enemy.id);
+        } else {
+          proj.damage = 0;
+        }
+        this.spawnExplosion(proj.pos.x, proj.pos.y, '#ffffff', 2);
+
+        // Bosses shrug off hits mid phase change
+        if (enemy.phaseTimer && enemy.phaseTimer > 0) return;
+        if (hit.part !== undefined) {
+          this.hitBossPart(enemy, enemy.parts![hit.part], damage);
+          return;
+        }
+
+        enemy.hp -= damage;
+        enemy.hitTimer = 5;
+
+        if (enemy.hp <= 0) this.destroyEnemy(enemy);
+      }
+    });
+
+    // While blinking (after a hit, a bomb or a respawn) bullets and contact do nothing
+    this.touching(core, 'bullet').forEach(({ index }) => {
+      if (p.invulnTimer) return;
+      const proj = this.projectiles.items[index];
+      if (proj.damage > 0) {
+        proj.damage = 0;
+        if (this.absorbHit()) return;
+        p.hp -= 15;
+        p.hitTimer = 5;
+        this.addShake(10);
+        this.spawnExplosion(p.pos.x + p.size.x / 2, p.pos.y + p.size.y / 2, '#ef4444', 5);
+        this.damagePlayer();
+      }
+    });
+
+    this.touching(core, 'enemy').forEach(({ index }) => {
+      if (p.invulnTimer) return;
+      const e = this.enemies[index];
+      if (e.hp > 0) {
+        if (e.type !== 'boss') e.hp = 0;
+
+        if (e.type !== 'boss' && mission.type === 'ELIMINATION') {
+          mission.currentValue++;
+        }
+        if (this.absorbHit()) return;
+
+        p.hp -= 20;
+        p.hitTimer = 10;
+
+        this.addShake(15);
+        this.spawnExplosion(p.pos.x + p.size.x / 2, p.pos.y + p.size.y / 2, '#ef4444', 10);
+        this.damagePlayer();
+      }
+    });
+
+    this.touching(playerHull(p), 'powerup').forEach(({ index }) => {
+      const pu = this.powerups[index];
+      if (pu.hp > 0) {
+        pu.hp = 0;
+
+        const type = pu.powerUpType || 'HEALTH';
+        const pan = this.pan(pu.pos.x + pu.size.x / 2);
+        if (type === 'HEALTH') {
+          playPowerUp(pan);
+          p.hp = Math.min(p.maxHp, p.hp + 20);
+          this.callbacks.onHealth?.(p.hp);
+        } else if (type === 'BOMB') {
+          playPowerUp(pan);
+          p.bombs = Math.min(MAX_BOMBS, (p.bombs || 0) + 1);
+        } else if (isTimedPowerUp(type)) {
+          playPowerUp(pan);
+          this.startEffect(type);
+        } else {
+          playWeaponUp(pan);
+          if (pu.powerUpType === 'WEAPON_SPREAD') this.collectWeapon('SPREAD');
+          if (pu.powerUpType === 'WEAPON_RAPID') this.collectWeapon('RAPID');
+          if (pu.powerUpType === 'WEAPON_PLASMA') this.collectWeapon('PLASMA');
+        }
+
+        this.spawnExplosion(pu.pos.x + 12, pu.pos.y + 12, pu.color, 8);
+        const label = type.startsWith('WEAPON_') ? `${p.weaponType} LV${p.weaponLevel}` : POWERUPS[type].label;
+        this.spawnFloatingText(pu.pos.x, pu.pos.y, label, '#fff');
+      }
+    });
+
+    this.checkExtraLife();
+
+    this.projectiles.retain(p =>
+      p.damage > 0 && p.pos.y > -50 && p.pos.y < height + 50 && p.pos.x > -50 && p.pos.x < width + 50
+    );
+    this.enemies = this.enemies.filter(e => e.hp > 0 && (e.type === 'boss' ? true : e.pos.y < height + 100 && !isPathComplete(e)));
+    this.powerups = this.powerups.filter(pu => pu.hp > 0 && pu.pos.y < height + 50);
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { GameEngine } from './GameEngine';
+import { partBounds } from './bosses';
+import { validateCampaign } from './campaign';
+
+const seraphCampaign = validateCampaign({
+  version: 1,
+  name: 'Seraph test',
+  waves: [{ mission: { type: 'BOSS' }, boss: 'seraph' }]
+});
+
+// A seraph settled into its hover, with the pilot parked out of harm's way
+const createSeraphFight = () => {
+  const engine = new GameEngine(480, 800, { color: '#fff', trailType: 'standard' }, {}, 11);
+  engine.setCampaign(seraphCampaign);
+  engine.reset(11);
+  for (let i = 0; i < 120; i++) engine.step({ target: { x: 240, y: 760 } });
+
+  const state = engine.serialize();
+  state.player.hp = state.player.maxHp = 1e9;
+  state.player.pos = { x: 0, y: 760 };
+  state.projectiles = [];
+  engine.restore(state);
+  return engine;
+};
+
+// One tick with a player shot parked on the middle of each of `parts`, and the score it earned
+const shootParts = (parts: number[], partHp?: number) => {
+  const engine = createSeraphFight();
+  const state = engine.serialize();
+  const seraph = state.enemies.find(e => e.type === 'boss')!;
+  parts.forEach((index, n) => {
+    const part = seraph.parts![index];
+    if (partHp !== undefined) part.hp = partHp;
+    const b = partBounds(seraph, part);
+    state.projectiles.push({
+      id: `probe-shot-${n}`,
+      pos: { x: b.x + b.w / 2 - 4, y: b.y + b.h / 2 - 4 },
+      velocity: { x: 0, y: 0 },
+      isPlayer: true,
+      damage: 5,
+      color: '#fff',
+      size: 8,
+      type: 'BLASTER'
+    });
+  });
+  engine.restore(state);
+  const before = engine.getStats().score;
+  engine.step({ target: { x: 0, y: 760 } });
+  return { engine, gained: engine.getStats().score - before };
+};
+
+describe('boss parts', () => {
+  it('takes hits on every seraph pod, including those outside the hull shape', () => {
+    const probe = createSeraphFight();
+    const boss = probe.getEnemies().find(e => e.type === 'boss')!;
+    expect(boss.bossId).toBe('seraph');
+
+    boss.parts!.forEach((part, index) => {
+      const { engine } = shootParts([index]);
+      const after = engine.getEnemies().find(e => e.type === 'boss')!.parts![index];
+      expect(after.hp, part.id).toBeLessThan(part.hp);
+    });
+  });
+
+  it('pays a pod bonus once when two shots land on it in the same tick', () => {
+    const once = shootParts([0], 1);
+    const twice = shootParts([0, 0], 1);
+    expect(once.gained).toBeGreaterThan(0);
+    expect(twice.gained).toBe(once.gained);
+    expect(twice.engine.getEnemies().find(e => e.type === 'boss')!.parts![0].hp).toBe(-4);
+  });
+});
@@ -0,0 +1,349 @@
+import { BossId, BossPart, Entity, Vector2D } from '../types';
+import type { EnemyArchetype } from './enemies';
+import type { PatternId } from './patterns';
+import { Hitbox, circle, polygon } from './hitboxes';
+import { panAt, playBossPhase } from '../utils/sound';
+
+// Length of the invulnerable phase-transition animation
+export const BOSS_PHASE_TRANSITION_TICKS = 90;
+
+// Fire `pattern` every `every` ticks from the core, the hull's underside, or each live part
+export interface BossAttack {
+  pattern: PatternId;
+  every: number;
+  from: 'core' | 'bottom' | 'parts';
+}
+
+export interface BossPhase {
+  threshold: number; // Phase begins once hp drops to this fraction of maxHp
+  attacks: BossAttack[];
+}
+
+/**
+ * A boss in the roster. All bosses share the 'boss' enemy type; `Entity.bossId`
+ * picks the definition that moves, fires and draws it.
+ */
+export interface BossDefinition {
+  name: string; // Shown on the HP bar and in the mission briefing
+  size: Vector2D;
+  hp: number; // Base hp; spawnBoss adds more per wave
+  color: string;
+  score: number;
+  partScore: number; // Bonus for each destroyed sub-part
+  parts: Omit<BossPart, 'maxHp' | 'hitTimer'>[];
+  hoverRange: number; // Fraction of the screen width swept while hovering
+  phases: BossPhase[]; // Ordered by descending threshold; the first starts at 1
+  hitbox: (e: Entity) => Hitbox; // Hull shape around the center; parts keep their own boxes
+  draw: (g: CanvasRenderingContext2D, e: Entity, frame: number) => void;
+  drawPart: (g: CanvasRenderingContext2D, part: BossPart, e: Entity, frame: number) => void;
+}
+
+// --- Shared helpers ---
+
+const center = (e: Entity): Vector2D => ({ x: e.pos.x + e.size.x / 2, y: e.pos.y + e.size.y / 2 });
+
+/** World-space hitbox of a sub-part. */
+export const partBounds = (e: Entity, part: BossPart) => {
+  const c = center(e);
+  return {
+    x: c.x + part.offset.x - part.size.x / 2,
+    y: c.y + part.offset.y - part.size.y / 2,
+    w: part.size.x,
+    h: part.size.y
+  };
+};
+
+const liveParts = (e: Entity) => (e.parts || []).filter(part => part.hp > 0);
+
+// Where an attack's volleys originate, as offsets from the boss center
+const attackOffsets = (e: Entity, from: BossAttack['from']): Vector2D[] => {
+  if (from === 'core') return [{ x: 0, y: 0 }];
+  if (from === 'bottom') return [{ x: 0, y: e.size.y / 2 }];
+  return liveParts(e).map(part => ({ x: part.offset.x, y: part.offset.y + part.size.y / 2 }));
+};
+
+// --- Drawing helpers ---
+
+const drawTurret = (g: CanvasRenderingContext2D, part: BossPart, frame: number, color: string) => {
+  g.save();
+  g.translate(part.offset.x, part.offset.y);
+  g.rotate(Math.sin(frame * 0.05) * 0.5);
+  g.fillStyle = part.hitTimer && part.hitTimer > 0 ? '#fff' : color;
+  g.fillRect(-4, 0, 8, 15);
+  g.beginPath();
+  g.arc(0, 0, part.size.x / 2, 0, Math.PI*2);
+  g.fill();
+  g.restore();
+};
+
+const drawCore = (g: CanvasRenderingContext2D, e: Entity, x: number, y: number, r: number, colors: string[]) => {
+  const coreColor = colors[Math.min(colors.length, e.phase || 1) - 1];
+  g.fillStyle = coreColor;
+  g.shadowColor = coreColor;
+  g.shadowBlur = 15;
+  g.beginPath();
+  g.arc(x, y, r, 0, Math.PI*2);
+  g.fill();
+  g.shadowBlur = 0;
+};
+
+// --- Roster ---
+
+export const BOSS_ROSTER: Record<BossId, BossDefinition> = {
+  dreadnought: {
+    name: 'DREADNOUGHT',
+    size: { x: 120, y: 100 },
+    hp: 500,
+    color: '#a855f7',
+    score: 5000,
+    partScore: 500,
+    parts: [
+      { id: 'turret-left', offset: { x: -40, y: 0 }, size: { x: 20, y: 20 }, hp: 60 },
+      { id: 'turret-right', offset: { x: 40, y: 0 }, size: { x: 20, y: 20 }, hp: 60 }
+    ],
+    hoverRange: 0.3,
+    phases: [
+      { threshold: 1, attacks: [{ pattern: 'dreadnought_twin', every: 80, from: 'parts' }] },
+      {
+        threshold: 0.66,
+        attacks: [
+          { pattern: 'dreadnought_spiral', every: 120, from: 'core' },
+          { pattern: 'dreadnought_twin', every: 100, from: 'parts' }
+        ]
+      },
+      {
+        threshold: 0.33,
+        attacks: [
+          { pattern: 'dreadnought_whirl', every: 120, from: 'core' },
+          { pattern: 'dreadnought_beams', every: 45, from: 'bottom' }
+        ]
+      }
+    ],
+    hitbox: e => polygon([0, e.size.y/2], [e.size.x/2, 0], [e.size.x/3, -e.size.y/2], [-e.size.x/3, -e.size.y/2], [-e.size.x/2, 0]),
+    draw: (g, e) => {
+      g.beginPath();
+      g.moveTo(0, e.size.y/2);
+      g.lineTo(e.size.x/2, 0);
+      g.lineTo(e.size.x/3, -e.size.y/2);
+      g.lineTo(-e.size.x/3, -e.size.y/2);
+      g.lineTo(-e.size.x/2, 0);
+      g.closePath();
+      g.fill();
+      drawCore(g, e, 0, -10, 15, ['#fff', '#f472b6', '#ef4444']);
+    },
+    drawPart: (g, part, _e, frame) => drawTurret(g, part, frame, '#4c1d95')
+  },
+
+  // Three-headed gunship: walls of fire, homing missiles from each head, then mines that stop and dart
+  hydra: {
+    name: 'HYDRA',
+    size: { x: 160, y: 80 },
+    hp: 650,
+    color: '#14b8a6',
+    score: 6000,
+    partScore: 400,
+    parts: [
+      { id: 'head-left', offset: { x: -55, y: 10 }, size: { x: 24, y: 24 }, hp: 50 },
+      { id: 'head-center', offset: { x: 0, y: 25 }, size: { x: 24, y: 24 }, hp: 50 },
+      { id: 'head-right', offset: { x: 55, y: 10 }, size: { x: 24, y: 24 }, hp: 50 }
+    ],
+    hoverRange: 0.2,
+    phases: [
+      { threshold: 1, attacks: [{ pattern: 'hydra_wall', every: 90, from: 'bottom' }] },
+      { threshold: 0.66, attacks: [{ pattern: 'homing_missile', every: 70, from: 'parts' }] },
+      {
+        threshold: 0.33,
+        attacks: [
+          { pattern: 'hydra_wall', every: 110, from: 'bottom' },
+          { pattern: 'hydra_mines', every: 150, from: 'core' },
+          { pattern: 'homing_missile', every: 90, from: 'parts' }
+        ]
+      }
+    ],
+    hitbox: e => polygon(
+      [-e.size.x/2, -e.size.y/4], [-e.size.x/4, -e.size.y/2], [e.size.x/4, -e.size.y/2],
+      [e.size.x/2, -e.size.y/4], [e.size.x/3, e.size.y/4], [-e.size.x/3, e.size.y/4]
+    ),
+    draw: (g, e) => {
+      g.beginPath();
+      g.moveTo(-e.size.x/2, -e.size.y/4);
+      g.lineTo(-e.size.x/4, -e.size.y/2);
+      g.lineTo(e.size.x/4, -e.size.y/2);
+      g.lineTo(e.size.x/2, -e.size.y/4);
+      g.lineTo(e.size.x/3, e.size.y/4);
+      g.lineTo(-e.size.x/3, e.size.y/4);
+      g.closePath();
+      g.fill();
+      drawCore(g, e, 0, -12, 12, ['#ccfbf1', '#fde047', '#ef4444']);
+    },
+    drawPart: (g, part, e) => {
+      g.save();
+      g.translate(part.offset.x, part.offset.y);
+      g.fillStyle = part.hitTimer && part.hitTimer > 0 ? '#fff' : '#0f766e';
+      g.beginPath();
+      g.moveTo(0, part.size.y / 2 + 6);
+      g.lineTo(part.size.x / 2, -part.size.y / 2);
+      g.lineTo(-part.size.x / 2, -part.size.y / 2);
+      g.closePath();
+      g.fill();
+      g.fillStyle = e.phase && e.phase > 1 ? '#f97316' : '#5eead4';
+      g.fillRect(-3, 0, 6, 6);
+      g.restore();
+    }
+  },
+
+  // Winged ring: aimed fans, counter-rotating spirals, then accelerating ring bursts and missiles
+  seraph: {
+    name: 'SERAPH',
+    size: { x: 110, y: 110 },
+    hp: 600,
+    color: '#facc15',
+    score: 7000,
+    partScore: 350,
+    parts: [
+      { id: 'pod-upper-left', offset: { x: -50, y: -20 }, size: { x: 18, y: 18 }, hp: 40 },
+      { id: 'pod-upper-right', offset: { x: 50, y: -20 }, size: { x: 18, y: 18 }, hp: 40 },
+      { id: 'pod-lower-left', offset: { x: -30, y: 35 }, size: { x: 18, y: 18 }, hp: 40 },
+      { id: 'pod-lower-right', offset: { x: 30, y: 35 }, size: { x: 18, y: 18 }, hp: 40 }
+    ],
+    hoverRange: 0.35,
+    phases: [
+      { threshold: 1, attacks: [{ pattern: 'seraph_fan', every: 60, from: 'parts' }] },
+      {
+        threshold: 0.66,
+        attacks: [
+          { pattern: 'seraph_spiral_cw', every: 150, from: 'core' },
+          { pattern: 'seraph_spiral_ccw', every: 150, from: 'core' }
+        ]
+      },
+      {
+        threshold: 0.33,
+        attacks: [
+          { pattern: 'seraph_burst', every: 90, from: 'core' },
+          { pattern: 'homing_missile', every: 120, from: 'parts' }
+        ]
+      }
+    ],
+    // The ring counts as solid; the wings are decoration
+    hitbox: e => circle(e.size.x / 2 * 0.7),
+    draw: (g, e, frame) => {
+      const r = e.size.x / 2;
+      g.beginPath();
+      g.arc(0, 0, r * 0.7, 0, Math.PI*2);
+      g.arc(0, 0, r * 0.45, 0, Math.PI*2, true);
+      g.fill();
+      g.beginPath();
+      g.moveTo(-r * 0.6, -r * 0.1);
+      g.lineTo(-r, -r * 0.6);
+      g.lineTo(-r * 0.9, r * 0.1);
+      g.moveTo(r * 0.6, -r * 0.1);
+      g.lineTo(r, -r * 0.6);
+      g.lineTo(r * 0.9, r * 0.1);
+      g.fill();
+      drawCore(g, e, 0, 0, 12 + Math.sin(frame * 0.1) * 2, ['#fff7ed', '#fb923c', '#ef4444']);
+    },
+    drawPart: (g, part, _e, frame) => {
+      g.save();
+      g.translate(part.offset.x, part.offset.y);
+      g.rotate(frame * 0.08);
+      g.fillStyle = part.hitTimer && part.hitTimer > 0 ? '#fff' : '#a16207';
+      g.fillRect(-part.size.x / 2, -part.size.y / 2, part.size.x, part.size.y);
+      g.restore();
+    }
+  }
+};
+
+// Order in which bosses appear every BOSS_WAVE_INTERVAL waves; loops
+export const BOSS_ROTATION: BossId[] = ['dreadnought', 'hydra', 'seraph'];
+
+/** Boss for the `encounter`-th boss wave of a sortie (1-based). */
+export const bossForEncounter = (encounter: number): BossId =>
+  BOSS_ROTATION[(Math.max(1, encounter) - 1) % BOSS_ROTATION.length];
+
+export const isBossId = (id: unknown): id is BossId =>
+  typeof id === 'string' && (BOSS_ROTATION as string[]).includes(id);
+
+export const bossDefinition = (e: Entity) => BOSS_ROSTER[e.bossId || 'dreadnought'];
+
+// --- Shared 'boss' archetype ---
+
+const movePhases = (e: Entity, def: BossDefinition, width: number) => {
+  const fraction = e.hp / e.maxHp;
+  let phase = 1;
+  def.phases.forEach((p, i) => {
+    if (fraction <= p.threshold) phase = i + 1;
+  });
+
+  if (phase > (e.phase || 1)) {
+    e.phase = phase;
+    e.phaseTimer = BOSS_PHASE_TRANSITION_TICKS;
+    e.attackTimer = 0;
+    playBossPhase(panAt(e.pos.x + e.size.x / 2, width));
+  }
+};
+
+/**
+ * Behaviors for the 'boss' enemy type: shared entry and hover, hp-driven phase
+ * changes with a transition pause, and the definition's per-phase patterns.
+ */
+export const BOSS_ARCHETYPE: Omit<EnemyArchetype, 'size' | 'hp' | 'speed' | 'color' | 'score' | 'spawnWeight'> = {
+  deathSound: 'boss',
+  hitbox: e => bossDefinition(e).hitbox(e),
+  move: (e, { width }) => {
+    const def = bossDefinition(e);
+    e.moveTimer = (e.moveTimer || 0) + 1;
+
+    if (e.pos.y < 80) {
+      e.pos.y += 2;
+      e.pos.x += (width / 2 - e.size.x / 2 - e.pos.x) * 0.05;
+    } else {
+      const hoverX = (width / 2 - e.size.x / 2) + Math.sin(e.moveTimer * 0.02) * (width * def.hoverRange);
+      e.pos.x += (hoverX - e.pos.x) * 0.05;
+    }
+
+    (e.parts || []).forEach(part => {
+      if (part.hitTimer && part.hitTimer > 0) part.hitTimer--;
+    });
+    movePhases(e, def, width);
+  },
+  fire: (e, ctx) => {
+    if (e.phaseTimer && e.phaseTimer > 0) {
+      e.phaseTimer--;
+      return;
+    }
+    // Hold fire until fully on screen
+    if (e.pos.y < 80) return;
+
+    e.attackTimer = (e.attackTimer || 0) + 1;
+    const def = bossDefinition(e);
+    def.phases[Math.min(def.phases.length, e.phase || 1) - 1].attacks.forEach(attack => {
+      if (e.attackTimer! % attack.every !== 0) return;
+      attackOffsets(e, attack.from).forEach(offset => ctx.emit(attack.pattern, e, { offset }));
+    });
+  },
+  draw: (g, e, frame) => {
+    const def = bossDefinition(e);
+    const transition = e.phaseTimer ? e.phaseTimer / BOSS_PHASE_TRANSITION_TICKS : 0;
+
+    // Phase change: the hull shudders and flickers while a shockwave rolls out
+    if (transition > 0) {
+      g.translate(Math.sin(frame * 1.7) * 4 * transition, Math.cos(frame * 2.3) * 3 * transition);
+      if (Math.floor(frame / 4) % 2 === 0) g.fillStyle = '#fff';
+    }
+
+    def.draw(g, e, frame);
+    liveParts(e).forEach(part => def.drawPart(g, part, e, frame));
+
+    if (transition > 0) {
+      const radius = (1 - transition) * Math.max(e.size.x, e.size.y) * 2;
+      g.save();
+      g.strokeStyle = def.color;
+      g.globalAlpha = transition;
+      g.lineWidth = 4;
+      g.beginPath();
+      g.arc(0, 0, radius, 0, Math.PI*2);
+      g.stroke();
+      g.restore();
+    }
+  }
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import exampleCampaign from '../campaigns/example.json';
+import { GameEngine } from './GameEngine';
+import { validateCampaign } from './campaign';
+
+const example = validateCampaign(exampleCampaign);
+
+const createEngine = () => {
+  const engine = new GameEngine(400, 700, { color: '#fff', trailType: 'standard' }, {}, 3);
+  engine.setCampaign(example);
+  engine.reset(3);
+  return engine;
+};
+
+describe('campaign schedules', () => {
+  it('runs `at: 0` events and `start: 0` spawns on the first tick of a wave', () => {
+    const engine = createEngine();
+    engine.step({ target: { x: 200, y: 600 } });
+
+    expect(engine.getFloatingTexts().map(text => text.text)).toContain('SCRAMBLE!');
+    expect(engine.getEnemies().filter(e => e.type === 'enemy_basic')).toHaveLength(1);
+  });
+
+  it('repeats spawns every `every` seconds from their start', () => {
+    const engine = createEngine();
+    for (let i = 0; i < 90; i++) engine.step({ target: { x: 200, y: 600 } });
+    expect(engine.getEnemies().filter(e => e.type === 'enemy_basic')).toHaveLength(1);
+
+    engine.step({ target: { x: 200, y: 600 } });
+    expect(engine.getEnemies().filter(e => e.type === 'enemy_basic')).toHaveLength(2);
+  });
+});
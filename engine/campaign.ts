@@ -0,0 +1,139 @@
+import { BossId, Campaign, CampaignEvent, CampaignSpawn, CampaignWave, EnemyType, FormationType, MissionType } from '../types';
+import { BOSS_ROSTER, BOSS_ROTATION, isBossId } from './bosses';
+import { ENEMY_ARCHETYPES } from './enemies';
+
+export const CAMPAIGN_VERSION = 1;
+
+const MISSION_TYPES: MissionType[] = ['ELIMINATION', 'SURVIVAL', 'BOSS'];
+const FORMATION_TYPES: FormationType[] = ['V', 'COLUMN', 'SNAKE', 'FLANK_LEFT', 'FLANK_RIGHT'];
+const ENEMY_TYPES = Object.keys(ENEMY_ARCHETYPES) as EnemyType[];
+
+/** Default mission wording, shared with the procedural generator. */
+export const describeMission = (type: MissionType, target: number, bossId: BossId = 'dreadnought') => {
+  if (type === 'BOSS') return `DEFEAT ${BOSS_ROSTER[bossId].name}`;
+  if (type === 'SURVIVAL') return `SURVIVE ASSAULT: ${target}s`;
+  return `DESTROY ${target} HOSTILES`;
+};
+
+/** The authored wave for `wave` (1-based), or undefined once the campaign runs out. */
+export const campaignWave = (campaign: Campaign | null, wave: number): CampaignWave | undefined =>
+  campaign?.waves[wave - 1];
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isTime = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isFraction = (value: unknown): value is number =>
+  typeof value === 'number' && value >= 0 && value <= 1;
+
+// Regular enemies only; bosses are picked per wave with `boss`
+const checkEnemy = (value: unknown, where: string): EnemyType => {
+  const type = value as EnemyType;
+  if (!ENEMY_TYPES.includes(type) || type === 'boss') {
+    throw new Error(`${where}: unknown enemy "${value}"`);
+  }
+  return type;
+};
+
+const parseSpawn = (data: unknown, where: string): CampaignSpawn => {
+  if (!isObject(data)) throw new Error(`${where}: expected an object`);
+  const enemy = checkEnemy(data.enemy, where);
+  if (typeof data.every !== 'number' || !(data.every > 0)) throw new Error(`${where}: "every" must be a positive number of seconds`);
+  if (data.start !== undefined && !isTime(data.start)) throw new Error(`${where}: "start" must be a time in seconds`);
+  if (data.end !== undefined && !isTime(data.end)) throw new Error(`${where}: "end" must be a time in seconds`);
+  if (data.end !== undefined && data.end <= (data.start ?? 0)) throw new Error(`${where}: "end" must come after "start"`);
+  return { enemy, every: data.every, start: data.start, end: data.end };
+};
+
+const parseEvent = (data: unknown, where: string): CampaignEvent => {
+  if (!isObject(data)) throw new Error(`${where}: expected an object`);
+  if (!isTime(data.at)) throw new Error(`${where}: "at" must be a time in seconds`);
+  const at = data.at;
+
+  switch (data.kind) {
+    case 'formation':
+      if (!FORMATION_TYPES.includes(data.formation)) {
+        throw new Error(`${where}: unknown formation "${data.formation}" (expected ${FORMATION_TYPES.join(', ')})`);
+      }
+      return { at, kind: 'formation', formation: data.formation };
+    case 'enemy':
+      if (!isFraction(data.x)) throw new Error(`${where}: "x" must be between 0 and 1`);
+      return { at, kind: 'enemy', enemy: checkEnemy(data.enemy, where), x: data.x };
+    case 'powerup':
+      if (!isFraction(data.x)) throw new Error(`${where}: "x" must be between 0 and 1`);
+      return { at, kind: 'powerup', x: data.x };
+    case 'message':
+      if (typeof data.text !== 'string' || !data.text) throw new Error(`${where}: "text" must be a non-empty string`);
+      return { at, kind: 'message', text: data.text };
+    default:
+      throw new Error(`${where}: unknown event kind "${data.kind}"`);
+  }
+};
+
+const parseWave = (data: unknown, where: string): CampaignWave => {
+  if (!isObject(data)) throw new Error(`${where}: expected an object`);
+
+  const mission = data.mission;
+  if (!isObject(mission) || !MISSION_TYPES.includes(mission.type)) {
+    throw new Error(`${where}: mission type must be one of ${MISSION_TYPES.join(', ')}`);
+  }
+  if (mission.type !== 'BOSS' && (!Number.isInteger(mission.target) || mission.target <= 0)) {
+    throw new Error(`${where}: ${mission.type} missions need a positive whole "target"`);
+  }
+  if (mission.description !== undefined && typeof mission.description !== 'string') {
+    throw new Error(`${where}: mission description must be a string`);
+  }
+
+  let boss: BossId | undefined;
+  if (data.boss !== undefined) {
+    if (mission.type !== 'BOSS') throw new Error(`${where}: "boss" is only allowed on BOSS missions`);
+    if (!isBossId(data.boss)) throw new Error(`${where}: unknown boss "${data.boss}" (expected ${BOSS_ROTATION.join(', ')})`);
+    boss = data.boss;
+  }
+
+  if (data.spawns !== undefined && !Array.isArray(data.spawns)) throw new Error(`${where}: "spawns" must be a list`);
+  if (data.events !== undefined && !Array.isArray(data.events)) throw new Error(`${where}: "events" must be a list`);
+  const spawns = (data.spawns ?? []).map((s: unknown, i: number) => parseSpawn(s, `${where}.spawns[${i}]`));
+  const events = (data.events ?? []).map((e: unknown, i: number) => parseEvent(e, `${where}.events[${i}]`));
+
+  // A kill count that can run dry would leave the pilot stuck in the wave forever
+  if (mission.type === 'ELIMINATION' && !spawns.some((s: CampaignSpawn) => s.end === undefined)) {
+    throw new Error(`${where}: ELIMINATION missions need at least one spawn without an "end"`);
+  }
+
+  return {
+    mission: { type: mission.type, target: mission.type === 'BOSS' ? undefined : mission.target, description: mission.description },
+    boss,
+    spawns,
+    events
+  };
+};
+
+/** Checks an already-decoded campaign object, throwing a readable error on the first problem. */
+export const validateCampaign = (data: unknown): Campaign => {
+  if (!isObject(data)) throw new Error('Campaign file is empty');
+  if (data.version !== CAMPAIGN_VERSION) throw new Error(`Unsupported campaign version: ${data.version}`);
+  if (typeof data.name !== 'string' || !data.name) throw new Error('Campaign is missing its name');
+  if (!Array.isArray(data.waves) || data.waves.length === 0) throw new Error('Campaign has no waves');
+
+  return {
+    version: data.version,
+    name: data.name,
+    waves: data.waves.map((w: unknown, i: number) => parseWave(w, `waves[${i}]`))
+  };
+};
+
+/** Parses a campaign file, throwing a readable error if it cannot be flown. */
+export const parseCampaign = (text: string): Campaign => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Campaign file is not valid JSON');
+  }
+  return validateCampaign(data);
+};
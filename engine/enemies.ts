@@ -0,0 +1,353 @@
+import { Entity, EnemyType, Vector2D } from '../types';
+import { Random } from '../utils/random';
+import { BOSS_ARCHETYPE, BOSS_ROSTER } from './bosses';
+import { Hitbox, box, circle, placeHitbox, polygon, ring } from './hitboxes';
+import type { EmitOptions, PatternId } from './patterns';
+import type { EnemySound } from '../utils/sound';
+
+// What an archetype's behaviors can see and do on a given tick
+export interface EnemyContext {
+  player: Readonly<Entity>;
+  width: number;
+  height: number;
+  wave: number;
+  frame: number;
+  rng: Random;
+  // Starts a bullet pattern (engine/patterns.json) firing from `source`
+  emit: (pattern: PatternId, source: Entity, options?: EmitOptions) => void;
+}
+
+/**
+ * Everything that defines an enemy type. Adding a new enemy means adding an
+ * entry here (and its id to `EnemyType`); spawning, movement, firing and
+ * drawing all look it up by `Entity.type`.
+ */
+export interface EnemyArchetype {
+  size: Vector2D;
+  hp: number;
+  speed: number; // Base descent speed, px per tick
+  color: string;
+  score: number;
+  deathSound: EnemySound;
+  // Relative chance of appearing in a random spawn on this wave (0 = never)
+  spawnWeight: (wave: number) => number;
+  move: (e: Entity, ctx: EnemyContext) => void;
+  fire?: (e: Entity, ctx: EnemyContext) => void;
+  // Collision shape around the center, matching `draw`'s silhouette (see engine/hitboxes.ts)
+  hitbox: (e: Entity) => Hitbox;
+  // Called with the canvas already translated to the enemy's center, rotated,
+  // and fillStyle set to its color (or white while hit-flashing)
+  draw: (g: CanvasRenderingContext2D, e: Entity, frame: number) => void;
+}
+
+// --- Shared behaviors ---
+
+const moveStraight = (e: Entity) => {
+  e.pos.x += e.velocity.x;
+  e.pos.y += e.velocity.y;
+  if (e.velocity.x !== 0) {
+    e.rotation = e.velocity.x * -0.1;
+  } else {
+    e.rotation = 0;
+  }
+};
+
+const moveHoming = (e: Entity, { player: p }: EnemyContext) => {
+  e.rotation = (e.rotation || 0) + 0.1;
+  const centerX = e.pos.x + e.size.x / 2;
+  const centerY = e.pos.y + e.size.y / 2;
+  const targetX = p.pos.x + p.size.x / 2;
+  const targetY = p.pos.y + p.size.y / 2;
+
+  const dx = targetX - centerX;
+  const dy = targetY - centerY;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+
+  if (distance > 0) {
+    e.velocity.x += (dx / distance) * 0.1;
+    e.velocity.y += (dy / distance) * 0.1;
+    const maxSpeed = 5;
+    const speed = Math.sqrt(e.velocity.x * e.velocity.x + e.velocity.y * e.velocity.y);
+    if (speed > maxSpeed) {
+      e.velocity.x = (e.velocity.x / speed) * maxSpeed;
+      e.velocity.y = (e.velocity.y / speed) * maxSpeed;
+    }
+  }
+  e.pos.x += e.velocity.x;
+  e.pos.y += e.velocity.y;
+};
+
+// Ticks between shots for regular shooters, tightening as waves progress
+const shotCooldown = (base: number, wave: number, min: number) =>
+  Math.max(min, Math.round(base * Math.pow(0.93, wave - 1)));
+
+// Unit vector from the enemy's muzzle towards the player's center
+const aimAtPlayer = (x: number, y: number, p: Readonly<Entity>): Vector2D => {
+  const dx = (p.pos.x + p.size.x / 2) - x;
+  const dy = (p.pos.y + p.size.y / 2) - y;
+  const mag = Math.sqrt(dx * dx + dy * dy) || 1;
+  return { x: dx / mag, y: dy / mag };
+};
+
+// Drop in, hold a firing position for `holdTicks`, then keep descending off-screen
+const moveToStation = (stationY: number, holdTicks: number) => (e: Entity, { height }: EnemyContext) => {
+  if (e.pos.y < height * stationY) {
+    e.pos.y += e.velocity.y;
+    return;
+  }
+  e.moveTimer = (e.moveTimer || 0) + 1;
+  if (e.moveTimer > holdTicks) {
+    e.pos.y += e.velocity.y;
+  }
+};
+
+// --- Registry ---
+
+export const ENEMY_ARCHETYPES: Record<EnemyType, EnemyArchetype> = {
+  enemy_basic: {
+    size: { x: 32, y: 32 },
+    hp: 1,
+    speed: 2,
+    color: '#ef4444',
+    score: 100,
+    deathSound: 'pop',
+    spawnWeight: wave => (wave > 2 ? 70 : 85),
+    move: moveStraight,
+    hitbox: e => box(e.size.x, e.size.y),
+    draw: (g, e) => {
+      g.fillRect(-e.size.x/2, -e.size.y/2, 6, e.size.y);
+      g.fillRect(e.size.x/2 - 6, -e.size.y/2, 6, e.size.y);
+      g.fillRect(-e.size.x/2, -4, e.size.x, 8);
+      g.fillStyle = '#111';
+      g.beginPath();
+      g.arc(0, 0, 8, 0, Math.PI*2);
+      g.fill();
+      g.strokeStyle = e.color;
+      g.lineWidth = 2;
+      g.stroke();
+    }
+  },
+
+  enemy_fast: {
+    size: { x: 24, y: 28 },
+    hp: 1,
+    speed: 4,
+    color: '#f59e0b',
+    score: 200,
+    deathSound: 'zip',
+    spawnWeight: () => 15,
+    move: moveStraight,
+    hitbox: e => polygon([0, e.size.y/2], [e.size.x/2, -e.size.y/2], [-e.size.x/2, -e.size.y/2]),
+    draw: (g, e) => {
+      g.beginPath();
+      g.moveTo(0, e.size.y/2);
+      g.lineTo(e.size.x/2, -e.size.y/2);
+      g.lineTo(0, -e.size.y/4);
+      g.lineTo(-e.size.x/2, -e.size.y/2);
+      g.closePath();
+      g.fill();
+      g.fillStyle = '#fff';
+      g.fillRect(-2, -e.size.y/2, 4, 6);
+    }
+  },
+
+  enemy_kamikaze: {
+    size: { x: 28, y: 28 },
+    hp: 2,
+    speed: 2.5,
+    color: '#f97316',
+    score: 300,
+    deathSound: 'blast',
+    spawnWeight: wave => (wave > 2 ? 15 : 0),
+    move: moveHoming,
+    // Between the spike tips and the notches
+    hitbox: e => circle(e.size.x * 0.4),
+    draw: (g, e, frame) => {
+      const spikes = 8;
+      g.beginPath();
+      for (let i = 0; i < spikes * 2; i++) {
+        const r = i % 2 === 0 ? e.size.x/2 : e.size.x/4;
+        const a = (Math.PI * 2 * i) / (spikes * 2);
+        g.lineTo(Math.cos(a) * r, Math.sin(a) * r);
+      }
+      g.closePath();
+      g.fill();
+      g.fillStyle = '#fff';
+      const pulse = 4 + Math.sin(frame * 0.5) * 2;
+      g.beginPath();
+      g.arc(0, 0, pulse, 0, Math.PI*2);
+      g.fill();
+    }
+  },
+
+  // Aimed single shots at the player's current position
+  enemy_gunner: {
+    size: { x: 30, y: 30 },
+    hp: 2,
+    speed: 1.6,
+    color: '#f43f5e',
+    score: 250,
+    deathSound: 'crunch',
+    spawnWeight: wave => (wave > 1 ? 12 : 0),
+    move: moveStraight,
+    fire: (e, { wave, height, emit }) => {
+      e.attackTimer = (e.attackTimer || 0) + 1;
+      if (e.attackTimer < shotCooldown(100, wave, 45)) return;
+      // Don't fire from off-screen or once past the player
+      if (e.pos.y < 0 || e.pos.y > height * 0.7) return;
+
+      e.attackTimer = 0;
+      emit('gunner_shot', e, { offset: { x: 0, y: e.size.y / 2 } });
+    },
+    hitbox: e => polygon(
+      [0, e.size.y/2], [e.size.x/2, -e.size.y/4], [e.size.x/3, -e.size.y/2], [-e.size.x/3, -e.size.y/2], [-e.size.x/2, -e.size.y/4]
+    ),
+    draw: (g, e) => {
+      g.beginPath();
+      g.moveTo(0, e.size.y/2);
+      g.lineTo(e.size.x/2, -e.size.y/4);
+      g.lineTo(e.size.x/3, -e.size.y/2);
+      g.lineTo(-e.size.x/3, -e.size.y/2);
+      g.lineTo(-e.size.x/2, -e.size.y/4);
+      g.closePath();
+      g.fill();
+      g.fillStyle = '#111';
+      g.fillRect(-3, 0, 6, e.size.y/2);
+    }
+  },
+
+  // Parks mid-screen and fires rings of pulses
+  enemy_turret: {
+    size: { x: 36, y: 36 },
+    hp: 5,
+    speed: 1.5,
+    color: '#e11d48',
+    score: 400,
+    deathSound: 'clank',
+    spawnWeight: wave => (wave > 3 ? 8 : 0),
+    move: (e, ctx) => {
+      e.rotation = (e.rotation || 0) + 0.02;
+      moveToStation(0.25, 360)(e, ctx);
+    },
+    fire: (e, { wave, emit }) => {
+      e.attackTimer = (e.attackTimer || 0) + 1;
+      if (e.attackTimer < shotCooldown(150, wave, 70) || e.pos.y < 0) return;
+
+      e.attackTimer = 0;
+      // Ring follows the hull's spin and thickens on later waves
+      emit('turret_ring', e, { angle: e.rotation || 0, count: Math.min(16, 8 + Math.floor(wave / 3)) });
+    },
+    hitbox: e => ring(8, e.size.x/2, e.size.y/2),
+    draw: (g, e) => {
+      g.beginPath();
+      for (let i = 0; i < 8; i++) {
+        const a = (Math.PI * 2 * i) / 8;
+        g.lineTo(Math.cos(a) * e.size.x/2, Math.sin(a) * e.size.y/2);
+      }
+      g.closePath();
+      g.fill();
+      g.fillStyle = '#111';
+      g.beginPath();
+      g.arc(0, 0, 9, 0, Math.PI*2);
+      g.fill();
+      g.fillStyle = '#fda4af';
+      for (let i = 0; i < 4; i++) {
+        const a = (Math.PI * 2 * i) / 4;
+        g.fillRect(Math.cos(a) * 12 - 2, Math.sin(a) * 12 - 2, 4, 4);
+      }
+    }
+  },
+
+  // Locks on with a visible beam, then fires a fast shot along it
+  enemy_sniper: {
+    size: { x: 26, y: 34 },
+    hp: 3,
+    speed: 1.2,
+    color: '#fb7185',
+    score: 500,
+    deathSound: 'shatter',
+    spawnWeight: wave => (wave > 5 ? 6 : 0),
+    move: moveToStation(0.12, 600),
+    fire: (e, { player, wave, emit }) => {
+      const cx = e.pos.x + e.size.x / 2;
+      const cy = e.pos.y + e.size.y;
+
+      // Telegraph: track the player while charging, then freeze the aim briefly
+      if (e.chargeTimer && e.chargeTimer > 0) {
+        e.chargeTimer--;
+        if (e.chargeTimer > 20) e.aim = aimAtPlayer(cx, cy, player);
+        if (e.chargeTimer === 0 && e.aim) {
+          emit('sniper_shot', e, { offset: { x: 0, y: e.size.y / 2 }, angle: Math.atan2(e.aim.y, e.aim.x) });
+          e.aim = undefined;
+        }
+        return;
+      }
+
+      e.attackTimer = (e.attackTimer || 0) + 1;
+      if (e.attackTimer < shotCooldown(180, wave, 90) || e.pos.y < 0) return;
+      e.attackTimer = 0;
+      e.chargeTimer = 60;
+      e.aim = aimAtPlayer(cx, cy, player);
+    },
+    hitbox: e => polygon([0, e.size.y/2], [e.size.x/2, -e.size.y/2], [-e.size.x/2, -e.size.y/2]),
+    draw: (g, e, frame) => {
+      if (e.aim) {
+        // Lock-on beam, blinking faster as the shot nears
+        const urgency = 1 - (e.chargeTimer || 0) / 60;
+        g.save();
+        g.strokeStyle = `rgba(251, 113, 133, ${0.25 + 0.5 * urgency * (0.5 + 0.5 * Math.sin(frame * (0.3 + urgency)))})`;
+        g.lineWidth = 1 + urgency * 2;
+        g.beginPath();
+        g.moveTo(0, e.size.y/2);
+        g.lineTo(e.aim.x * 2000, e.size.y/2 + e.aim.y * 2000);
+        g.stroke();
+        g.restore();
+      }
+      g.beginPath();
+      g.moveTo(0, e.size.y/2);
+      g.lineTo(e.size.x/2, -e.size.y/2);
+      g.lineTo(-e.size.x/2, -e.size.y/2);
+      g.closePath();
+      g.fill();
+      g.fillStyle = '#fff';
+      g.beginPath();
+      g.arc(0, -4, 4, 0, Math.PI*2);
+      g.fill();
+    }
+  },
+
+  // Only spawned by BOSS missions; spawnBoss takes size, hp, color and score
+  // from the roster entry (engine/bosses.ts), scaled by wave
+  boss: {
+    ...BOSS_ARCHETYPE,
+    size: BOSS_ROSTER.dreadnought.size,
+    hp: BOSS_ROSTER.dreadnought.hp,
+    speed: 0,
+    color: BOSS_ROSTER.dreadnought.color,
+    score: BOSS_ROSTER.dreadnought.score,
+    spawnWeight: () => 0
+  }
+};
+
+export const isEnemyType = (type: Entity['type']): type is EnemyType => type in ENEMY_ARCHETYPES;
+
+/** The enemy's hitbox in playfield space, turned with its sprite. */
+export const enemyHitbox = (e: Entity): Hitbox => {
+  const shape = isEnemyType(e.type) ? ENEMY_ARCHETYPES[e.type].hitbox(e) : box(e.size.x, e.size.y);
+  return placeHitbox(shape, { x: e.pos.x + e.size.x / 2, y: e.pos.y + e.size.y / 2 }, e.rotation || 0);
+};
+
+/** Weighted pick among the archetypes allowed on this wave. */
+export const rollEnemyType = (wave: number, rng: Random, candidates: EnemyType[] = Object.keys(ENEMY_ARCHETYPES) as EnemyType[]): EnemyType => {
+  const entries = candidates
+    .map(type => [type, ENEMY_ARCHETYPES[type].spawnWeight(wave)] as const)
+    .filter(([, weight]) => weight > 0);
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+
+  let roll = rng.next() * total;
+  for (const [type, weight] of entries) {
+    roll -= weight;
+    if (roll < 0) return type;
+  }
+  return entries[entries.length - 1][0];
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { EngineInput, EnemyPath } from '../types';
+import { Random } from '../utils/random';
+import { GameEngine } from './GameEngine';
+import { buildFormation, evaluatePath, formationSequence } from './formations';
+
+const WIDTH = 480;
+const HEIGHT = 800;
+const IDLE: EngineInput = { target: { x: WIDTH / 2, y: HEIGHT - 40 } };
+
+const createEngine = () => {
+  const engine = new GameEngine(WIDTH, HEIGHT, { color: '#fff', trailType: 'standard' }, {}, 3);
+  engine.reset(3);
+  return engine;
+};
+
+const expectAt = (point: { x: number; y: number }, x: number, y: number) => {
+  expect(point.x).toBeCloseTo(x, 6);
+  expect(point.y).toBeCloseTo(y, 6);
+};
+
+// Every path-following enemy sits where its path says it should
+const expectOnPaths = (engine: GameEngine) => {
+  const flying = engine.getEnemies().filter(e => e.path && e.hp > 0);
+  flying.forEach(e => {
+    const center = evaluatePath(e.path!, e.pathTime!, WIDTH, HEIGHT);
+    expectAt({ x: e.pos.x + e.size.x / 2, y: e.pos.y + e.size.y / 2 }, center.x, center.y);
+  });
+  return flying.length;
+};
+
+describe('formations', () => {
+  it('runs a spline from its first point to its last', () => {
+    const path: EnemyPath = {
+      kind: 'spline',
+      duration: 100,
+      points: [{ x: 0.5, y: -0.1 }, { x: 0.2, y: 0.5 }, { x: 0.8, y: 1.2 }]
+    };
+    expectAt(evaluatePath(path, 0, WIDTH, HEIGHT), 240, -80);
+    expectAt(evaluatePath(path, 50, WIDTH, HEIGHT), 96, 400);
+    expectAt(evaluatePath(path, 100, WIDTH, HEIGHT), 384, 960);
+    // Clamped past the end
+    expectAt(evaluatePath(path, 500, WIDTH, HEIGHT), 384, 960);
+  });
+
+  it('weaves a sine path across its center line', () => {
+    const path: EnemyPath = { kind: 'sine', x: 0.5, amplitude: 0.25, cycles: 1, startY: 0, endY: 1, duration: 100 };
+    expectAt(evaluatePath(path, 0, WIDTH, HEIGHT), 240, 0);
+    expect(evaluatePath(path, 25, WIDTH, HEIGHT).x).toBeCloseTo(360);
+    expect(evaluatePath(path, 75, WIDTH, HEIGHT).x).toBeCloseTo(120);
+  });
+
+  it('builds the same members for the same seed', () => {
+    const build = () => buildFormation('V', 1, new Random(8));
+    expect(build()).toEqual(build());
+    expect(build()).toHaveLength(5);
+    expect(formationSequence(1)[0]).toBe('V');
+  });
+
+  it('flies launched formations along their paths, across serialize / restore', () => {
+    const engine = createEngine();
+    for (let i = 0; i < 150; i++) engine.step(IDLE);
+    expect(expectOnPaths(engine)).toBeGreaterThan(0);
+
+    const restored = new GameEngine(WIDTH, HEIGHT, { color: '#fff', trailType: 'standard' }, {}, 1);
+    restored.restore(engine.serialize());
+    for (let i = 0; i < 120; i++) {
+      engine.step(IDLE);
+      restored.step(IDLE);
+    }
+    expectOnPaths(restored);
+    expect(restored.serialize()).toEqual(engine.serialize());
+  });
+});
@@ -0,0 +1,162 @@
+import { Entity, EnemyPath, EnemyType, FormationType, Vector2D } from '../types';
+import { Random } from '../utils/random';
+import { rollEnemyType } from './enemies';
+
+// One enemy of a formation, launched `delay` ticks after the formation starts
+export interface FormationMember {
+  delay: number;
+  type: EnemyType;
+  path: EnemyPath;
+}
+
+// Archetypes that look right flying in formation (path-following ignores their own movement)
+const FORMATION_ENEMIES: EnemyType[] = ['enemy_basic', 'enemy_fast', 'enemy_gunner'];
+
+// Formation sequences per wave, cycled; later waves repeat with bigger formations
+const WAVE_SEQUENCES: FormationType[][] = [
+  ['V', 'COLUMN'],
+  ['V', 'SNAKE', 'COLUMN'],
+  ['FLANK_LEFT', 'V', 'FLANK_RIGHT', 'SNAKE'],
+  ['SNAKE', 'FLANK_LEFT', 'FLANK_RIGHT', 'V', 'COLUMN'],
+];
+
+export const formationSequence = (wave: number): FormationType[] =>
+  WAVE_SEQUENCES[(wave - 1) % WAVE_SEQUENCES.length];
+
+// Ticks between formation launches
+export const formationInterval = (wave: number) => Math.max(150, 300 - wave * 12);
+
+// --- Path evaluation ---
+
+// Uniform Catmull-Rom through p1..p2, with p0/p3 as tangent guides
+const catmullRom = (p0: number, p1: number, p2: number, p3: number, t: number) => {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return 0.5 * ((2 * p1) + (-p0 + p2) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2 + (-p0 + 3 * p1 - 3 * p2 + p3) * t3);
+};
+
+/**
+ * Center position (in px) of an enemy `t` ticks into its path. Path coordinates
+ * are fractions of the playfield so formations scale with the screen.
+ */
+export const evaluatePath = (path: EnemyPath, t: number, width: number, height: number): Vector2D => {
+  const progress = Math.min(1, Math.max(0, t / path.duration));
+
+  if (path.kind === 'sine') {
+    const y = path.startY + (path.endY - path.startY) * progress;
+    const x = path.x + path.amplitude * Math.sin(progress * path.cycles * Math.PI * 2);
+    return { x: x * width, y: y * height };
+  }
+
+  const pts = path.points;
+  const segments = pts.length - 1;
+  const scaled = progress * segments;
+  const i = Math.min(segments - 1, Math.floor(scaled));
+  const local = scaled - i;
+  const p0 = pts[Math.max(0, i - 1)];
+  const p1 = pts[i];
+  const p2 = pts[i + 1];
+  const p3 = pts[Math.min(pts.length - 1, i + 2)];
+  return {
+    x: catmullRom(p0.x, p1.x, p2.x, p3.x, local) * width,
+    y: catmullRom(p0.y, p1.y, p2.y, p3.y, local) * height
+  };
+};
+
+/** Advances a path-following enemy one tick (less under slow-mo); banks it into turns like free flyers. */
+export const moveAlongPath = (e: Entity, width: number, height: number, timeScale: number = 1) => {
+  if (!e.path) return;
+  e.pathTime = (e.pathTime || 0) + timeScale;
+  const center = evaluatePath(e.path, e.pathTime, width, height);
+  const x = center.x - e.size.x / 2;
+  const y = center.y - e.size.y / 2;
+  e.velocity.x = x - e.pos.x;
+  e.velocity.y = y - e.pos.y;
+  e.pos.x = x;
+  e.pos.y = y;
+  e.rotation = e.velocity.x * -0.1;
+};
+
+export const isPathComplete = (e: Entity) => !!e.path && (e.pathTime || 0) >= e.path.duration;
+
+// --- Formation builders ---
+
+const mirror = (points: Vector2D[]) => points.map(p => ({ x: 1 - p.x, y: p.y }));
+
+/** Lays out one formation's members, paths and launch delays. */
+export const buildFormation = (formation: FormationType, wave: number, rng: Random): FormationMember[] => {
+  const type = rollEnemyType(wave, rng, FORMATION_ENEMIES);
+  const extra = Math.min(4, Math.floor(wave / 4));
+  const members: FormationMember[] = [];
+
+  switch (formation) {
+    case 'V': {
+      // Wedge: leader first, wingmen trail out to both sides
+      const count = 5 + extra * 2;
+      const centerX = rng.range(0.3, 0.7);
+      const half = Math.floor(count / 2);
+      for (let i = 0; i < count; i++) {
+        const rank = i - half;
+        const x = Math.min(0.95, Math.max(0.05, centerX + rank * 0.07));
+        members.push({
+          delay: Math.abs(rank) * 12,
+          type,
+          path: {
+            kind: 'spline',
+            duration: 360,
+            points: [{ x, y: -0.1 }, { x, y: 0.3 }, { x: x + rank * 0.03, y: 0.6 }, { x: x + rank * 0.06, y: 1.2 }]
+          }
+        });
+      }
+      break;
+    }
+    case 'COLUMN': {
+      // Single file following an S-curve
+      const count = 5 + extra;
+      const x = rng.range(0.25, 0.75);
+      const swing = x < 0.5 ? 0.2 : -0.2;
+      for (let i = 0; i < count; i++) {
+        members.push({
+          delay: i * 18,
+          type,
+          path: {
+            kind: 'spline',
+            duration: 330,
+            points: [{ x, y: -0.1 }, { x: x + swing, y: 0.25 }, { x: x - swing, y: 0.55 }, { x: x + swing, y: 0.85 }, { x, y: 1.2 }]
+          }
+        });
+      }
+      break;
+    }
+    case 'SNAKE': {
+      // Sine-wave snake weaving down the screen
+      const count = 6 + extra;
+      const x = rng.range(0.35, 0.65);
+      for (let i = 0; i < count; i++) {
+        members.push({
+          delay: i * 12,
+          type,
+          path: { kind: 'sine', x, amplitude: 0.25, cycles: 1.5, startY: -0.08, endY: 1.15, duration: 420 }
+        });
+      }
+      break;
+    }
+    case 'FLANK_LEFT':
+    case 'FLANK_RIGHT': {
+      // Sweep in from the side, arc across the top half and leave through the far side
+      const count = 4 + extra;
+      const base = [{ x: -0.1, y: 0.05 }, { x: 0.25, y: 0.2 }, { x: 0.6, y: 0.35 }, { x: 0.8, y: 0.6 }, { x: 1.15, y: 0.75 }];
+      const points = formation === 'FLANK_LEFT' ? base : mirror(base);
+      for (let i = 0; i < count; i++) {
+        members.push({
+          delay: i * 16,
+          type,
+          path: { kind: 'spline', duration: 300, points }
+        });
+      }
+      break;
+    }
+  }
+
+  return members;
+};
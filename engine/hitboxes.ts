@@ -0,0 +1,169 @@
+import { Entity, Projectile, Vector2D } from '../types';
+import { Bounds } from './spatialGrid';
+
+/**
+ * Collision shapes. Archetypes author them around the entity's center with
+ * the sprite unrotated; `placeHitbox` moves them into playfield space.
+ * Polygons must be convex (use the sprite's hull) so the overlap test can be
+ * a plain separating-axis check.
+ */
+export type Hitbox =
+  | { kind: 'circle'; x: number; y: number; r: number }
+  | { kind: 'polygon'; points: Vector2D[] };
+
+// The player only dies when a bullet touches this dot, drawn on the cockpit
+export const PLAYER_CORE_RADIUS = 4;
+export const PLAYER_CORE_OFFSET: Vector2D = { x: 0, y: -4 };
+
+// --- Shape builders ---
+
+export const circle = (r: number, x: number = 0, y: number = 0): Hitbox => ({ kind: 'circle', x, y, r });
+
+export const polygon = (...points: [number, number][]): Hitbox =>
+  ({ kind: 'polygon', points: points.map(([x, y]) => ({ x, y })) });
+
+export const box = (w: number, h: number): Hitbox =>
+  polygon([-w / 2, -h / 2], [w / 2, -h / 2], [w / 2, h / 2], [-w / 2, h / 2]);
+
+/** `sides`-gon inscribed in an rx × ry ellipse; also stands in for ellipses. */
+export const ring = (sides: number, rx: number, ry: number = rx): Hitbox =>
+  ({
+    kind: 'polygon',
+    points: Array.from({ length: sides }, (_, i) => {
+      const a = (Math.PI * 2 * i) / sides;
+      return { x: Math.cos(a) * rx, y: Math.sin(a) * ry };
+    })
+  });
+
+/** Moves a local shape to `center`, turned by `rotation` radians. */
+export const placeHitbox = (shape: Hitbox, center: Vector2D, rotation: number = 0): Hitbox => {
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  const place = (x: number, y: number) => ({
+    x: center.x + x * cos - y * sin,
+    y: center.y + x * sin + y * cos
+  });
+
+  if (shape.kind === 'circle') {
+    const c = place(shape.x, shape.y);
+    return { kind: 'circle', x: c.x, y: c.y, r: shape.r };
+  }
+  return { kind: 'polygon', points: shape.points.map(pt => place(pt.x, pt.y)) };
+};
+
+/** Axis-aligned rectangle already in playfield space (boss parts). */
+export const rectHitbox = (x: number, y: number, w: number, h: number): Hitbox =>
+  polygon([x, y], [x + w, y], [x + w, y + h], [x, y + h]);
+
+// --- Entity shapes ---
+
+const center = (e: { pos: Vector2D; size: Vector2D }): Vector2D => ({ x: e.pos.x + e.size.x / 2, y: e.pos.y + e.size.y / 2 });
+
+// Hull of drawPlayer: nose, wingtips and the tail; used for pickups
+const PLAYER_HULL = polygon([0, -24], [20, 16], [20, 24], [-20, 24], [-20, 16]);
+
+export const playerHull = (p: Readonly<Entity>) => placeHitbox(PLAYER_HULL, center(p), p.bankAngle || 0);
+
+export const playerCore = (p: Readonly<Entity>) =>
+  placeHitbox(circle(PLAYER_CORE_RADIUS, PLAYER_CORE_OFFSET.x, PLAYER_CORE_OFFSET.y), center(p), p.bankAngle || 0);
+
+export const powerUpHitbox = (pu: Readonly<Entity>) => placeHitbox(circle(pu.size.x / 2), center(pu));
+
+/** Matches how the canvas draws each projectile type from its `pos` and `size`. */
+export const projectileHitbox = (proj: Readonly<Projectile>): Hitbox => {
+  const s = proj.size;
+  const mid = { x: proj.pos.x + s / 2, y: proj.pos.y + s / 2 };
+  if (!proj.isPlayer || proj.type === 'SPREAD') return placeHitbox(circle(s / 2), mid);
+
+  switch (proj.type) {
+    case 'RAPID':
+      return rectHitbox(proj.pos.x, proj.pos.y, s, s * 4);
+    case 'MISSILE':
+      return placeHitbox(box(s * 2, s * 2 / 3), mid, Math.atan2(proj.velocity.y, proj.velocity.x));
+    case 'CHARGE':
+      return placeHitbox(ring(8, s / 2, s), mid);
+    default:
+      return placeHitbox(ring(8, s / 2, s * 1.5), mid);
+  }
+};
+
+// --- Overlap ---
+
+/** Smallest axis-aligned box around a placed hitbox; what the broadphase files it under. */
+export const hitboxBounds = (h: Hitbox): Bounds => {
+  if (h.kind === 'circle') return { minX: h.x - h.r, maxX: h.x + h.r, minY: h.y - h.r, maxY: h.y + h.r };
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let minY = Infinity;
+  let maxY = -Infinity;
+  h.points.forEach(pt => {
+    minX = Math.min(minX, pt.x);
+    maxX = Math.max(maxX, pt.x);
+    minY = Math.min(minY, pt.y);
+    maxY = Math.max(maxY, pt.y);
+  });
+  return { minX, maxX, minY, maxY };
+};
+
+const project = (h: Hitbox, axis: Vector2D) => {
+  if (h.kind === 'circle') {
+    const c = h.x * axis.x + h.y * axis.y;
+    return { min: c - h.r, max: c + h.r };
+  }
+  let min = Infinity;
+  let max = -Infinity;
+  h.points.forEach(pt => {
+    const d = pt.x * axis.x + pt.y * axis.y;
+    min = Math.min(min, d);
+    max = Math.max(max, d);
+  });
+  return { min, max };
+};
+
+const edgeNormals = (points: Vector2D[]): Vector2D[] =>
+  points.map((a, i) => {
+    const b = points[(i + 1) % points.length];
+    const nx = a.y - b.y;
+    const ny = b.x - a.x;
+    const len = Math.sqrt(nx * nx + ny * ny) || 1;
+    return { x: nx / len, y: ny / len };
+  });
+
+// Circle vs polygon needs one extra axis: towards the polygon's nearest corner
+const cornerAxis = (c: { x: number; y: number }, points: Vector2D[]): Vector2D => {
+  let nearest = points[0];
+  let best = Infinity;
+  points.forEach(pt => {
+    const d = (pt.x - c.x) ** 2 + (pt.y - c.y) ** 2;
+    if (d < best) {
+      best = d;
+      nearest = pt;
+    }
+  });
+  const len = Math.sqrt(best) || 1;
+  return { x: (nearest.x - c.x) / len, y: (nearest.y - c.y) / len };
+};
+
+/** True when two placed hitboxes touch. */
+export const hitboxesOverlap = (a: Hitbox, b: Hitbox): boolean => {
+  const ba = hitboxBounds(a);
+  const bb = hitboxBounds(b);
+  if (ba.maxX < bb.minX || bb.maxX < ba.minX || ba.maxY < bb.minY || bb.maxY < ba.minY) return false;
+
+  if (a.kind === 'circle' && b.kind === 'circle') {
+    const r = a.r + b.r;
+    return (a.x - b.x) ** 2 + (a.y - b.y) ** 2 <= r * r;
+  }
+
+  const axes: Vector2D[] = [];
+  if (a.kind === 'polygon') axes.push(...edgeNormals(a.points));
+  if (b.kind === 'polygon') axes.push(...edgeNormals(b.points));
+  if (a.kind === 'circle' && b.kind === 'polygon') axes.push(cornerAxis(a, b.points));
+  if (b.kind === 'circle' && a.kind === 'polygon') axes.push(cornerAxis(b, a.points));
+
+  return axes.every(axis => {
+    const pa = project(a, axis);
+    const pb = project(b, axis);
+    return pa.max >= pb.min && pb.max >= pa.min;
+  });
+};
@@ -0,0 +1,37 @@
+import { LoadoutId, PlayerWeaponType, UpgradeLevels } from '../types';
+import { upgradeValue } from './upgrades';
+import { BOMB_STOCK, WEAPONS } from './weapons';
+
+/**
+ * What the ship launches with. Chosen in the hangar and stored in the
+ * PlayerConfig, so replays and continued sorties start the same way; which
+ * ones a pilot may pick is up to their profile (services/unlocks.ts).
+ */
+export interface LoadoutDefinition {
+  name: string;
+  description: string;
+  weaponType: PlayerWeaponType;
+  weaponLevel: number;
+  bombs: number;
+}
+
+export const LOADOUTS: Record<LoadoutId, LoadoutDefinition> = {
+  STANDARD: { name: 'STANDARD ISSUE', description: 'BLASTER / 2 BOMBS', weaponType: 'BLASTER', weaponLevel: 1, bombs: BOMB_STOCK },
+  ASSAULT: { name: 'ASSAULT', description: 'SPREAD / 1 BOMB', weaponType: 'SPREAD', weaponLevel: 1, bombs: 1 },
+  INTERCEPTOR: { name: 'INTERCEPTOR', description: 'RAPID LV2 / NO BOMBS', weaponType: 'RAPID', weaponLevel: 2, bombs: 0 },
+  SIEGE: { name: 'SIEGE', description: 'PLASMA / 3 BOMBS', weaponType: 'PLASMA', weaponLevel: 1, bombs: 3 }
+};
+
+export const DEFAULT_LOADOUT: LoadoutId = 'STANDARD';
+
+/** Whether the loadout's weapon has levels for the ARMORY upgrade to add. */
+export const canLevelWeapon = (id: LoadoutId) => WEAPONS[LOADOUTS[id].weaponType].levels.length > 1;
+
+/** Level the loadout's weapon launches at: its own plus ARMORY's, up to the weapon's top level. */
+export const startingWeaponLevel = (id: LoadoutId, upgrades: UpgradeLevels | undefined) => {
+  const loadout = LOADOUTS[id];
+  return Math.min(WEAPONS[loadout.weaponType].levels.length, loadout.weaponLevel + upgradeValue(upgrades, 'ARMORY'));
+};
+
+export const isLoadoutId = (id: unknown): id is LoadoutId =>
+  typeof id === 'string' && id in LOADOUTS;
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { BULLET_PATTERNS, validatePatterns } from './patterns';
+
+const validate = (pattern: unknown) => () => validatePatterns({ test: pattern });
+
+describe('bullet patterns', () => {
+  it('fills in defaults for a minimal pattern', () => {
+    const { test } = validatePatterns({ test: { kind: 'ring', speed: 3 } });
+    expect(test).toMatchObject({ kind: 'ring', count: 1, speed: 3, type: 'ENEMY_PULSE' });
+    expect(BULLET_PATTERNS.hydra_mines.bullet?.turns).toHaveLength(1);
+  });
+
+  it('names the pattern and field that is wrong', () => {
+    expect(validate({ kind: 'cone', speed: 3 })).toThrow('patterns.json "test": "kind" must be one of');
+    expect(validate({ kind: 'ring', speed: 0 })).toThrow('"speed" must be a positive number');
+    expect(validate({ kind: 'ring', speed: 3, count: 0 })).toThrow('"count" must be a number >= 1');
+    expect(validate({ kind: 'ring', speed: 3, bullet: { curve: 'left' } })).toThrow('bullet "curve" must be a number');
+  });
+
+  it('rejects bullet turns that change nothing or hold non-numbers', () => {
+    const turns = (...list: unknown[]) => validate({ kind: 'ring', speed: 3, bullet: { turns: list } });
+    expect(turns({ at: 10, aim: true })).not.toThrow();
+    expect(turns({ angle: 30 })).toThrow('turns[0] needs an "at" tick');
+    expect(turns({ at: 10 })).toThrow('turns[0] must change "angle", "aim", "speed" or "accel"');
+    expect(turns({ at: 10, angle: 30 }, { at: 20, speed: 'fast' })).toThrow('turns[1] "speed" must be a number');
+    expect(turns({ at: 10, angle: NaN })).toThrow('turns[0] "angle" must be a number');
+    expect(turns({ at: 10, aim: true, accel: '0.1' })).toThrow('turns[0] "accel" must be a number');
+  });
+});
@@ -0,0 +1,194 @@
+import { BulletMotion, Emitter, Entity, Projectile, Vector2D, WeaponType } from '../types';
+import { Random } from '../utils/random';
+import { EnemyShotSound } from '../utils/sound';
+import patternData from './patterns.json';
+
+/**
+ * One bullet pattern as authored in patterns.json. Angles are in degrees with
+ * 0 pointing right and 90 straight down; times are in ticks.
+ *
+ * - ring: `count` bullets evenly around the origin
+ * - fan: `count` bullets `spread` degrees apart, centered on the direction
+ * - wall: a full-width row `spacing` px apart with one `gap` px hole at a random x
+ *
+ * A pattern fires `shots` volleys `interval` ticks apart after `delay`, turning
+ * by `spin` each volley, so a ring with spin and many shots is a spiral.
+ */
+export interface BulletPattern {
+  kind: 'ring' | 'fan' | 'wall';
+  count: number;
+  speed: number;
+  type: WeaponType;
+  angle: number; // Direction when not aimed
+  aim: boolean; // Point at the player at the moment of each volley
+  spread: number;
+  spin: number;
+  shots: number;
+  interval: number;
+  delay: number;
+  spacing: number;
+  gap: number;
+  bullet?: BulletMotion;
+  sound?: EnemyShotSound; // Played once per volley
+}
+
+export type PatternId = keyof typeof patternData;
+
+// Emit-time tweaks for behaviors that compute part of the pattern themselves
+export interface EmitOptions {
+  offset?: Vector2D; // From the source's center
+  angle?: number; // Radians; replaces the pattern's direction and aim
+  count?: number;
+}
+
+const DEG = Math.PI / 180;
+const KINDS = ['ring', 'fan', 'wall'];
+const BULLET_TYPES: WeaponType[] = ['ENEMY_PULSE', 'ENEMY_BEAM'];
+const SOUNDS: EnemyShotSound[] = ['pulse', 'beam', 'burst', 'cannon', 'chime', 'missile'];
+
+// --- Validation ---
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const optionalNumber = (data: Record<string, any>, key: string, where: string, fallback: number, min = -Infinity) => {
+  const value = data[key];
+  if (value === undefined) return fallback;
+  if (!isNumber(value) || value < min) throw new Error(`${where}: "${key}" must be a number${min > -Infinity ? ` >= ${min}` : ''}`);
+  return value;
+};
+
+const parseMotion = (data: unknown, where: string): BulletMotion => {
+  if (!data || typeof data !== 'object') throw new Error(`${where}: "bullet" must be an object`);
+  const m = data as Record<string, any>;
+  ['accel', 'minSpeed', 'maxSpeed', 'curve', 'homing', 'homingTicks'].forEach(key => {
+    if (m[key] !== undefined && !isNumber(m[key])) throw new Error(`${where}: bullet "${key}" must be a number`);
+  });
+  if (m.turns !== undefined) {
+    if (!Array.isArray(m.turns)) throw new Error(`${where}: bullet "turns" must be a list`);
+    m.turns.forEach((turn: any, i: number) => {
+      if (!turn || !isNumber(turn.at) || turn.at < 0) throw new Error(`${where}: turns[${i}] needs an "at" tick`);
+      if (turn.angle === undefined && !turn.aim && turn.speed === undefined && turn.accel === undefined) {
+        throw new Error(`${where}: turns[${i}] must change "angle", "aim", "speed" or "accel"`);
+      }
+      ['angle', 'speed', 'accel'].forEach(key => {
+        if (turn[key] !== undefined && !isNumber(turn[key])) throw new Error(`${where}: turns[${i}] "${key}" must be a number`);
+      });
+    });
+  }
+  return m as BulletMotion;
+};
+
+const parsePattern = (data: unknown, where: string): BulletPattern => {
+  if (!data || typeof data !== 'object') throw new Error(`${where}: expected an object`);
+  const p = data as Record<string, any>;
+  if (!KINDS.includes(p.kind)) throw new Error(`${where}: "kind" must be one of ${KINDS.join(', ')}`);
+  if (!isNumber(p.speed) || p.speed <= 0) throw new Error(`${where}: "speed" must be a positive number`);
+  if (p.type !== undefined && !BULLET_TYPES.includes(p.type)) throw new Error(`${where}: "type" must be one of ${BULLET_TYPES.join(', ')}`);
+  if (p.sound !== undefined && !SOUNDS.includes(p.sound)) throw new Error(`${where}: "sound" must be one of ${SOUNDS.join(', ')}`);
+
+  return {
+    kind: p.kind,
+    count: optionalNumber(p, 'count', where, 1, 1),
+    speed: p.speed,
+    type: p.type || 'ENEMY_PULSE',
+    angle: optionalNumber(p, 'angle', where, 90),
+    aim: p.aim === true,
+    spread: optionalNumber(p, 'spread', where, 10),
+    spin: optionalNumber(p, 'spin', where, 0),
+    shots: optionalNumber(p, 'shots', where, 1, 1),
+    interval: optionalNumber(p, 'interval', where, 1, 1),
+    delay: optionalNumber(p, 'delay', where, 0, 0),
+    spacing: optionalNumber(p, 'spacing', where, 28, 8),
+    gap: optionalNumber(p, 'gap', where, 90, 0),
+    bullet: p.bullet === undefined ? undefined : parseMotion(p.bullet, where),
+    sound: p.sound
+  };
+};
+
+/** Checks a pattern table, throwing a readable error on the first bad entry. */
+export const validatePatterns = <T extends string>(data: Record<T, unknown>): Record<T, BulletPattern> => {
+  const patterns = {} as Record<T, BulletPattern>;
+  (Object.keys(data) as T[]).forEach(id => {
+    patterns[id] = parsePattern(data[id], `patterns.json "${id}"`);
+  });
+  return patterns;
+};
+
+export const BULLET_PATTERNS: Record<PatternId, BulletPattern> = validatePatterns(patternData);
+
+// --- Firing ---
+
+export interface VolleyContext {
+  player: Readonly<Entity>;
+  width: number;
+  rng: Random;
+  spawn: (x: number, y: number, heading: number, speed: number, type: WeaponType, motion?: BulletMotion) => void;
+}
+
+const angleTo = (x: number, y: number, p: Readonly<Entity>) =>
+  Math.atan2((p.pos.y + p.size.y / 2) - y, (p.pos.x + p.size.x / 2) - x);
+
+/** Fires the emitter's next volley from `origin`. */
+export const fireVolley = (pattern: BulletPattern, emitter: Emitter, origin: Vector2D, ctx: VolleyContext) => {
+  let base: number;
+  if (emitter.angle !== undefined) base = emitter.angle;
+  else if (pattern.aim) base = angleTo(origin.x, origin.y, ctx.player);
+  else base = pattern.angle * DEG;
+  base += pattern.spin * DEG * emitter.volley;
+
+  const count = emitter.count ?? pattern.count;
+  const fire = (x: number, y: number, heading: number) =>
+    ctx.spawn(x, y, heading, pattern.speed, pattern.type, pattern.bullet);
+
+  if (pattern.kind === 'ring') {
+    for (let i = 0; i < count; i++) fire(origin.x, origin.y, base + (Math.PI * 2 * i) / count);
+  } else if (pattern.kind === 'fan') {
+    for (let i = 0; i < count; i++) fire(origin.x, origin.y, base + (i - (count - 1) / 2) * pattern.spread * DEG);
+  } else {
+    const gapX = ctx.rng.range(pattern.gap, ctx.width - pattern.gap);
+    for (let x = pattern.spacing / 2; x < ctx.width; x += pattern.spacing) {
+      if (Math.abs(x - gapX) < pattern.gap / 2) continue;
+      fire(x, origin.y, base);
+    }
+  }
+};
+
+// --- Bullet motion ---
+
+/**
+ * Applies a patterned bullet's acceleration, curving, homing and scheduled turns
+ * for one tick. `target` is what it homes on and re-aims at: the player for
+ * enemy bullets, the nearest enemy for missiles. Without one it flies straight on.
+ */
+export const advanceBullet = (proj: Projectile, target: Readonly<Entity> | undefined) => {
+  const m = proj.motion;
+  if (!m || proj.heading === undefined || proj.speed === undefined) return;
+
+  const age = (proj.age || 0) + 1;
+  proj.age = age;
+
+  m.turns?.forEach(turn => {
+    if (turn.at !== age) return;
+    if (turn.aim && target) proj.heading = angleTo(proj.pos.x, proj.pos.y, target);
+    else if (turn.angle !== undefined) proj.heading! += turn.angle * DEG;
+    if (turn.speed !== undefined) proj.speed = turn.speed;
+    if (turn.accel !== undefined) proj.accel = turn.accel;
+  });
+
+  if (m.curve) proj.heading += m.curve * DEG;
+
+  if (m.homing && target && age <= (m.homingTicks ?? Infinity)) {
+    let delta = angleTo(proj.pos.x, proj.pos.y, target) - proj.heading;
+    while (delta > Math.PI) delta -= Math.PI * 2;
+    while (delta < -Math.PI) delta += Math.PI * 2;
+    const maxTurn = m.homing * DEG;
+    proj.heading += Math.max(-maxTurn, Math.min(maxTurn, delta));
+  }
+
+  if (proj.accel) {
+    proj.speed = Math.max(m.minSpeed ?? 0, Math.min(m.maxSpeed ?? Infinity, proj.speed + proj.accel));
+  }
+
+  proj.velocity.x = Math.cos(proj.heading) * proj.speed;
+  proj.velocity.y = Math.sin(proj.heading) * proj.speed;
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { GameEngine } from './GameEngine';
+import { Pool } from './pool';
+
+interface Item {
+  slot: number;
+  value: number;
+}
+
+const createPool = (capacity: number) => new Pool<Item>(capacity, slot => ({ slot, value: 0 }));
+
+describe('Pool', () => {
+  it('hands recycled objects back out instead of creating new ones', () => {
+    const pool = createPool(4);
+    const first = [pool.acquire()!, pool.acquire()!, pool.acquire()!];
+    first.forEach((item, i) => { item.value = i; });
+    pool.retain(item => item.value !== 1);
+    expect(pool.items.map(i => i.value).sort()).toEqual([0, 2]);
+
+    const reused = pool.acquire()!;
+    expect(reused).toBe(first[1]);
+    expect(pool.acquire()!.slot).toBe(3); // Free list empty: a brand new one
+  });
+
+  it('refuses to grow past its capacity', () => {
+    const pool = createPool(2);
+    pool.acquire();
+    pool.acquire();
+    expect(pool.acquire()).toBeUndefined();
+    pool.clear();
+    expect(pool.items).toHaveLength(0);
+    expect(pool.acquire()).toBeDefined();
+  });
+
+  it('keeps the same live list through clear and replace', () => {
+    const pool = createPool(2);
+    const items = pool.items;
+    pool.replace([{ slot: 7, value: 1 }, { slot: 8, value: 2 }, { slot: 9, value: 3 }]);
+    expect(pool.items).toBe(items);
+    expect(pool.items.map(i => i.slot)).toEqual([7, 8]);
+  });
+});
+
+describe('particle budget', () => {
+  // Particles alive after a bomb clears 400 bullets, on a host this slow
+  const bombOnHost = (frameMs: number) => {
+    const engine = new GameEngine(400, 700, { color: '#fff', trailType: 'standard' }, {}, 17);
+    engine.reset(17);
+    const state = engine.serialize();
+    state.enemies = [];
+    state.projectiles = Array.from({ length: 400 }, (_, i) => ({
+      id: `bullet-${i}`,
+      pos: { x: (i % 20) * 20, y: Math.floor(i / 20) * 20 },
+      velocity: { x: 0, y: 0 },
+      isPlayer: false,
+      damage: 15,
+      color: '#ef4444',
+      size: 8,
+      type: 'ENEMY_PULSE' as const
+    }));
+    engine.restore(state);
+    for (let i = 0; i < 60; i++) engine.reportFrameTime(frameMs);
+    engine.step({ target: { x: 200, y: 600 }, bomb: true });
+    return engine;
+  };
+
+  it('draws fewer particles on a slow host without touching gameplay', () => {
+    const fast = bombOnHost(1000 / 60);
+    const slow = bombOnHost(100);
+    expect(slow.getSnapshot().particles.length).toBe(200);
+    expect(fast.getSnapshot().particles.length).toBeGreaterThan(600);
+    expect(slow.serialize()).toEqual(fast.serialize());
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Fixed-capacity object pool. `items` is the live list the engine iterates and
+ * the renderer draws; it is always the same array. Dead objects move to a free
+ * list and `acquire` hands them out again instead of allocating, so callers
+ * must overwrite every field. Removal swaps the last live object into the
+ * hole, so `items` order changes as objects die.
+ */
+export class Pool<T> {
+  readonly items: T[] = [];
+  readonly capacity: number;
+  private free: T[] = [];
+  private created = 0;
+  private create: (slot: number) => T;
+
+  // `create` gets a number unique within this pool, for ids that never change
+  constructor(capacity: number, create: (slot: number) => T) {
+    this.capacity = capacity;
+    this.create = create;
+  }
+
+  /** A live object to fill in, or undefined when the pool is full. */
+  acquire(): T | undefined {
+    if (this.items.length >= this.capacity) return undefined;
+    const item = this.free.pop() ?? this.create(this.created++);
+    this.items.push(item);
+    return item;
+  }
+
+  /** Recycles every live object `keep` rejects. */
+  retain(keep: (item: T) => boolean) {
+    const items = this.items;
+    for (let i = items.length - 1; i >= 0; i--) {
+      const item = items[i];
+      if (keep(item)) continue;
+      const last = items.pop() as T;
+      if (i < items.length) items[i] = last;
+      this.free.push(item);
+    }
+  }
+
+  clear() {
+    while (this.items.length) this.free.push(this.items.pop() as T);
+  }
+
+  /** Replaces the live list with `items` (e.g. from a save); they join the pool. */
+  replace(items: T[]) {
+    this.clear();
+    this.items.push(...items.slice(0, this.capacity));
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { EngineInput, EngineState, Entity, Projectile } from '../types';
+import { Random } from '../utils/random';
+import { GameEngine } from './GameEngine';
+import { POWERUPS, SHIELD_HITS, rollPowerUp } from './powerups';
+
+const WIDTH = 480;
+const HEIGHT = 800;
+const CONFIG = { color: '#fff', trailType: 'standard' as const };
+
+// A quiet moment early in a sortie: nothing on screen, the ship not blinking
+const createQuietState = (): EngineState => {
+  const engine = new GameEngine(WIDTH, HEIGHT, CONFIG, {}, 9);
+  engine.reset(9);
+  for (let i = 0; i < 10; i++) engine.step({ target: { x: WIDTH / 2, y: HEIGHT - 100 } });
+  const state = engine.serialize();
+  state.enemies = [];
+  state.projectiles = [];
+  state.powerups = [];
+  state.player.invulnTimer = 0;
+  return state;
+};
+
+// An enemy bullet right on the ship's core
+const bulletOn = (player: Entity): Projectile => ({
+  id: 'bullet',
+  pos: { x: player.pos.x + player.size.x / 2 - 4, y: player.pos.y + player.size.y / 2 - 8 },
+  velocity: { x: 0, y: 0 },
+  isPlayer: false,
+  damage: 15,
+  color: '#ef4444',
+  size: 8,
+  type: 'ENEMY_PULSE'
+});
+
+// Runs `ticks` ticks from `state` with the ship held where it is
+const run = (state: EngineState, ticks = 1) => {
+  const engine = new GameEngine(WIDTH, HEIGHT, CONFIG, {}, 1);
+  engine.restore(state);
+  const p = state.player;
+  const input: EngineInput = { target: { x: p.pos.x + p.size.x / 2, y: p.pos.y + p.size.y / 2 } };
+  for (let i = 0; i < ticks; i++) engine.step(input);
+  return engine.getPlayer();
+};
+
+const shielded = (hits: number) => {
+  const state = createQuietState();
+  Object.assign(state.player, { shieldHits: hits, effects: { SHIELD: 600 }, weaponType: 'SPREAD', weaponLevel: 2 });
+  state.projectiles = [bulletOn(state.player)];
+  return state;
+};
+
+describe('powerups', () => {
+  it('lets a shield take a hit instead of the hull and the weapon', () => {
+    const state = shielded(SHIELD_HITS);
+    const p = run(state);
+    expect(p.hp).toBe(state.player.hp);
+    expect(p).toMatchObject({ shieldHits: SHIELD_HITS - 1, weaponType: 'SPREAD', weaponLevel: 2 });
+    expect(p.effects?.SHIELD).toBeGreaterThan(0);
+    expect(p.invulnTimer).toBeGreaterThan(0);
+  });
+
+  it('breaks the shield on its last hit', () => {
+    const p = run(shielded(1));
+    expect(p.shieldHits).toBe(0);
+    expect(p.effects?.SHIELD).toBeUndefined();
+
+    const unshielded = run(shielded(0));
+    expect(unshielded.hp).toBe(unshielded.maxHp - 15);
+    expect(unshielded.weaponLevel).toBe(1);
+  });
+
+  it('runs timed effects out, taking the shield with them', () => {
+    const state = createQuietState();
+    Object.assign(state.player, { shieldHits: 2, effects: { SHIELD: 3, MAGNET: 5 } });
+    const p = run(state, 3);
+    expect(p.effects).toEqual({ MAGNET: 2 });
+    expect(p.shieldHits).toBe(0);
+  });
+
+  it('only drops what the wave allows', () => {
+    const rng = new Random(4);
+    for (let i = 0; i < 500; i++) {
+      const type = rollPowerUp(1, rng);
+      expect(POWERUPS[type].dropWeight(1)).toBeGreaterThan(0);
+    }
+  });
+});
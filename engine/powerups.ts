@@ -0,0 +1,55 @@
+import { PowerUpType, TimedPowerUpType } from '../types';
+import { Random } from '../utils/random';
+
+export const SHIELD_HITS = 3; // Hits a shield soaks up before it breaks
+export const MAGNET_RADIUS = 220; // px from the ship's center
+export const MAGNET_PULL = 7; // px per tick
+export const SCORE_MULTIPLIER = 2;
+export const SLOW_FACTOR = 0.5; // Enemy and bullet speed while time is slowed
+
+/**
+ * Everything that defines a pickup. Adding a powerup means adding an entry
+ * here (and its id to `PowerUpType`); drops, pickup labels and drawing all
+ * look it up by `Entity.powerUpType`. What it does on pickup lives in the engine.
+ */
+export interface PowerUpDefinition {
+  color: string;
+  symbol: string; // Letter on the crate and the HUD timer
+  label: string; // Floating text on pickup
+  // Relative chance of being the drop on this wave (0 = never)
+  dropWeight: (wave: number) => number;
+  seconds?: number; // Timed powerups: how long the effect lasts
+}
+
+export const POWERUPS: Record<PowerUpType, PowerUpDefinition> = {
+  HEALTH: { color: '#22c55e', symbol: '+', label: 'HP', dropWeight: wave => 30 + Math.min(wave, 10) },
+  WEAPON_SPREAD: { color: '#eab308', symbol: 'S', label: 'SPREAD', dropWeight: () => 20 },
+  WEAPON_RAPID: { color: '#06b6d4', symbol: 'R', label: 'RAPID', dropWeight: () => 17 },
+  WEAPON_PLASMA: { color: '#a855f7', symbol: 'P', label: 'PLASMA', dropWeight: wave => (wave > 1 ? 18 : 8) },
+  BOMB: { color: '#f43f5e', symbol: 'B', label: 'BOMB', dropWeight: () => 10 },
+  SHIELD: { color: '#38bdf8', symbol: 'O', label: 'SHIELD', dropWeight: wave => (wave > 1 ? 8 : 0), seconds: 20 },
+  MAGNET: { color: '#f472b6', symbol: 'M', label: 'MAGNET', dropWeight: () => 6, seconds: 12 },
+  SCORE_X2: { color: '#facc15', symbol: '2', label: 'SCORE x2', dropWeight: wave => (wave > 2 ? 6 : 0), seconds: 10 },
+  SLOW: { color: '#a3e635', symbol: 'T', label: 'SLOW-MO', dropWeight: wave => (wave > 3 ? 5 : 0), seconds: 6 }
+};
+
+// HUD and update order for active timers
+export const TIMED_POWERUPS: TimedPowerUpType[] = ['SHIELD', 'MAGNET', 'SCORE_X2', 'SLOW'];
+
+export const isTimedPowerUp = (type: PowerUpType): type is TimedPowerUpType =>
+  (TIMED_POWERUPS as PowerUpType[]).includes(type);
+
+/** Weighted pick of the drop table for this wave. */
+export const rollPowerUp = (wave: number, rng: Random): PowerUpType => {
+  const entries = (Object.keys(POWERUPS) as PowerUpType[])
+    .map(type => [type, POWERUPS[type].dropWeight(wave)] as const)
+    .filter(([, weight]) => weight > 0);
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+
+  let roll = rng.next() * total;
+  for (const [type, weight] of entries) {
+    roll -= weight;
+    if (roll < 0) return type;
+  }
+  return entries[entries.length - 1][0];
+};
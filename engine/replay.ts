@@ -0,0 +1,220 @@
+import { Campaign, EngineInput, PlayerConfig, ReplayData, TrailType } from '../types';
+import { validateCampaign } from './campaign';
+import { isLoadoutId } from './loadouts';
+import { isUpgradeLevels } from './upgrades';
+
+export const REPLAY_VERSION = 1;
+
+const TRAIL_TYPES: TrailType[] = ['standard', 'plasma', 'turbo', 'ember', 'prism'];
+
+// Trigger bits in the button track
+const SECONDARY_BIT = 1;
+const BOMB_BIT = 2;
+
+const packButtons = (input: EngineInput) =>
+  (input.secondary ? SECONDARY_BIT : 0) | (input.bomb ? BOMB_BIT : 0);
+
+/**
+ * Captures the per-frame steering target and triggers of a live sortie. Targets
+ * are snapped to whole pixels before they reach the engine, so the recorded run
+ * and its playback see bit-identical input.
+ */
+export class ReplayRecorder {
+  private inputs: number[] = [];
+  private buttons: number[] = [];
+  private resizes: number[] = [];
+  private frame = 0;
+  private width: number;
+  private height: number;
+
+  constructor(private seed: number, private config: PlayerConfig, private startWidth: number, private startHeight: number, private campaign: Campaign | null = null) {
+    this.width = startWidth;
+    this.height = startHeight;
+  }
+
+  /** Picks up recording where a saved, partially recorded sortie left off. */
+  static resume(partial: ReplayData): ReplayRecorder {
+    const recorder = new ReplayRecorder(partial.seed, partial.config, partial.width, partial.height, partial.campaign ?? null);
+    recorder.inputs = [...partial.inputs];
+    recorder.resizes = [...partial.resizes];
+    recorder.frame = replayLength(partial);
+    // Saves from before triggers were recorded: nothing was pressed so far
+    recorder.buttons = [...(partial.buttons ?? [])];
+    let pressed = 0;
+    for (let i = 1; i < recorder.buttons.length; i += 2) {
+      pressed += recorder.buttons[i];
+    }
+    if (pressed < recorder.frame) recorder.buttons.push(0, recorder.frame - pressed);
+    const n = partial.resizes.length;
+    if (n > 0) {
+      recorder.width = partial.resizes[n - 2];
+      recorder.height = partial.resizes[n - 1];
+    }
+    return recorder;
+  }
+
+  /** Records one frame and returns the quantized input to feed the engine. */
+  record(input: EngineInput, width: number, height: number): EngineInput {
+    if (width !== this.width || height !== this.height) {
+      this.width = width;
+      this.height = height;
+      this.resizes.push(this.frame, width, height);
+    }
+
+    const x = Math.round(input.target.x);
+    const y = Math.round(input.target.y);
+    const n = this.inputs.length;
+    if (n > 0 && this.inputs[n - 3] === x && this.inputs[n - 2] === y) {
+      this.inputs[n - 1]++;
+    } else {
+      this.inputs.push(x, y, 1);
+    }
+
+    const mask = packButtons(input);
+    const b = this.buttons.length;
+    if (b > 0 && this.buttons[b - 2] === mask) {
+      this.buttons[b - 1]++;
+    } else {
+      this.buttons.push(mask, 1);
+    }
+
+    this.frame++;
+    return { target: { x, y }, secondary: !!input.secondary, bomb: !!input.bomb };
+  }
+
+  finish(score: number): ReplayData {
+    const replay: ReplayData = {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      config: { ...this.config },
+      width: this.startWidth,
+      height: this.startHeight,
+      score,
+      inputs: [...this.inputs],
+      buttons: [...this.buttons],
+      resizes: [...this.resizes]
+    };
+    if (this.campaign) replay.campaign = this.campaign;
+    return replay;
+  }
+}
+
+/** Feeds a recorded sortie back one frame at a time. */
+export class ReplayPlayer {
+  private cursor = 0;
+  private remaining: number;
+  private resizeCursor = 0;
+  private buttonCursor = 0;
+  private buttonsRemaining: number;
+  private frame = 0;
+
+  constructor(private replay: ReplayData) {
+    this.remaining = replay.inputs[2] ?? 0;
+    this.buttonsRemaining = replay.buttons?.[1] ?? 0;
+  }
+
+  get done() {
+    return this.cursor >= this.replay.inputs.length;
+  }
+
+  /** Playfield size for the upcoming frame. */
+  size(): { width: number; height: number } {
+    const { resizes } = this.replay;
+    while (this.resizeCursor < resizes.length && resizes[this.resizeCursor] <= this.frame) {
+      this.resizeCursor += 3;
+    }
+    if (this.resizeCursor === 0) {
+      return { width: this.replay.width, height: this.replay.height };
+    }
+    return { width: resizes[this.resizeCursor - 2], height: resizes[this.resizeCursor - 1] };
+  }
+
+  next(): EngineInput | null {
+    if (this.done) return null;
+
+    const { inputs } = this.replay;
+    const buttons = this.replay.buttons ?? [];
+    const mask = buttons[this.buttonCursor] ?? 0;
+    const input = {
+      target: { x: inputs[this.cursor], y: inputs[this.cursor + 1] },
+      secondary: (mask & SECONDARY_BIT) !== 0,
+      bomb: (mask & BOMB_BIT) !== 0
+    };
+
+    this.frame++;
+    this.remaining--;
+    if (this.remaining <= 0) {
+      this.cursor += 3;
+      this.remaining = inputs[this.cursor + 2] ?? 0;
+    }
+    this.buttonsRemaining--;
+    if (this.buttonsRemaining <= 0) {
+      this.buttonCursor += 2;
+      this.buttonsRemaining = buttons[this.buttonCursor + 1] ?? 0;
+    }
+    return input;
+  }
+}
+
+export const serializeReplay = (replay: ReplayData): string => JSON.stringify(replay);
+
+/** Ticks recorded so far. */
+export const replayLength = (replay: ReplayData) => {
+  let frames = 0;
+  for (let i = 2; i < replay.inputs.length; i += 3) frames += replay.inputs[i];
+  return frames;
+};
+
+const isNumberArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'number' && Number.isFinite(v));
+
+/** Parses a replay file, throwing a readable error if it is not one we can play. */
+export const parseReplay = (text: string): ReplayData => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Replay file is not valid JSON');
+  }
+
+  if (!data || typeof data !== 'object') throw new Error('Replay file is empty');
+  if (data.version !== REPLAY_VERSION) throw new Error(`Unsupported replay version: ${data.version}`);
+  if (typeof data.seed !== 'number') throw new Error('Replay is missing its seed');
+  if (!data.config || typeof data.config.color !== 'string' || !TRAIL_TYPES.includes(data.config.trailType)) {
+    throw new Error('Replay is missing its player config');
+  }
+  if (data.config.loadout !== undefined && !isLoadoutId(data.config.loadout)) {
+    throw new Error(`Unknown loadout in replay: ${data.config.loadout}`);
+  }
+  if (data.config.upgrades !== undefined && !isUpgradeLevels(data.config.upgrades)) {
+    throw new Error('Replay has invalid upgrade levels');
+  }
+  if (typeof data.width !== 'number' || typeof data.height !== 'number') throw new Error('Replay is missing its playfield size');
+  if (!isNumberArray(data.inputs) || data.inputs.length % 3 !== 0) throw new Error('Replay input track is corrupt');
+  if (!isNumberArray(data.resizes) || data.resizes.length % 3 !== 0) throw new Error('Replay resize track is corrupt');
+  if (data.buttons !== undefined && (!isNumberArray(data.buttons) || data.buttons.length % 2 !== 0)) {
+    throw new Error('Replay button track is corrupt');
+  }
+
+  const replay: ReplayData = {
+    version: data.version,
+    seed: data.seed,
+    config: { color: data.config.color, trailType: data.config.trailType },
+    width: data.width,
+    height: data.height,
+    score: typeof data.score === 'number' ? data.score : 0,
+    inputs: data.inputs,
+    resizes: data.resizes
+  };
+  if (data.config.loadout !== undefined) replay.config.loadout = data.config.loadout;
+  if (data.config.upgrades !== undefined) replay.config.upgrades = data.config.upgrades;
+  if (data.buttons !== undefined) replay.buttons = data.buttons;
+  if (data.campaign !== undefined) {
+    try {
+      replay.campaign = validateCampaign(data.campaign);
+    } catch (err) {
+      throw new Error(`Replay campaign is corrupt: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  return replay;
+};
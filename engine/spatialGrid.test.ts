@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { SpatialGrid } from './spatialGrid';
+
+const box = (x: number, y: number, size = 10) => ({ minX: x, minY: y, maxX: x + size, maxY: y + size });
+
+describe('SpatialGrid', () => {
+  it('returns each overlapping item once, in insertion order', () => {
+    const grid = new SpatialGrid<string>(480, 800);
+    grid.insert('wide', { minX: 0, minY: 0, maxX: 300, maxY: 20 });
+    grid.insert('far', box(400, 700));
+    grid.insert('near', box(100, 5));
+
+    expect(grid.search({ minX: 50, minY: 0, maxX: 200, maxY: 30 })).toEqual(['wide', 'near']);
+    expect(grid.search(box(-500, -500))).toEqual([]);
+  });
+
+  it('keeps its cells when resized to the same size', () => {
+    const grid = new SpatialGrid<string>(480, 800);
+    grid.insert('a', box(100, 100));
+    grid.resize(480, 800);
+    expect(grid.search(box(100, 100))).toEqual(['a']);
+
+    grid.resize(640, 800);
+    expect(grid.search(box(100, 100))).toEqual([]);
+  });
+});
@@ -0,0 +1,104 @@
+// Axis-aligned box in playfield space
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export const CELL_SIZE = 64; // px; roughly the size of a mid-sized enemy
+const MARGIN = 1; // Extra cells around the playfield; anything further out shares the edge cells
+
+interface Entry<T> {
+  item: T;
+  order: number; // Insertion index since the last clear
+  seen: number; // Query number that last returned this entry
+}
+
+/**
+ * Uniform-grid broadphase over the playfield. Items go into every cell their
+ * bounds cover and a query returns each item sharing a cell with the queried
+ * bounds exactly once, so the narrow-phase test only runs against neighbours.
+ * Cells and entries are kept across `clear()` so rebuilding the grid every
+ * tick doesn't allocate.
+ */
+export class SpatialGrid<T> {
+  private cellSize: number;
+  private cols = 0;
+  private rows = 0;
+  private cells: Entry<T>[][] = [];
+  private entries: Entry<T>[] = [];
+  private count = 0;
+  private queries = 0;
+
+  constructor(width: number, height: number, cellSize: number = CELL_SIZE) {
+    this.cellSize = cellSize;
+    this.resize(width, height);
+  }
+
+  resize(width: number, height: number) {
+    const cols = Math.ceil(width / this.cellSize) + MARGIN * 2;
+    const rows = Math.ceil(height / this.cellSize) + MARGIN * 2;
+    if (cols === this.cols && rows === this.rows) return;
+    this.cols = cols;
+    this.rows = rows;
+    this.cells = Array.from({ length: this.cols * this.rows }, () => []);
+    this.count = 0;
+  }
+
+  clear() {
+    this.cells.forEach(cell => { cell.length = 0; });
+    for (let i = 0; i < this.count; i++) this.entries[i].item = undefined as unknown as T;
+    this.count = 0;
+  }
+
+  insert(item: T, bounds: Bounds) {
+    let entry = this.entries[this.count];
+    if (!entry) {
+      entry = { item, order: this.count, seen: 0 };
+      this.entries.push(entry);
+    }
+    entry.item = item;
+    entry.seen = 0;
+    this.count++;
+
+    const x1 = this.col(bounds.maxX);
+    const y1 = this.row(bounds.maxY);
+    for (let y = this.row(bounds.minY); y <= y1; y++) {
+      for (let x = this.col(bounds.minX); x <= x1; x++) this.cells[y * this.cols + x].push(entry);
+    }
+  }
+
+  /** Items sharing a cell with `bounds`, in insertion order. */
+  search(bounds: Bounds): T[] {
+    const found: Entry<T>[] = [];
+    const query = ++this.queries;
+    let cellsVisited = 0;
+
+    const x1 = this.col(bounds.maxX);
+    const y1 = this.row(bounds.maxY);
+    for (let y = this.row(bounds.minY); y <= y1; y++) {
+      for (let x = this.col(bounds.minX); x <= x1; x++) {
+        const cell = this.cells[y * this.cols + x];
+        if (cell.length) cellsVisited++;
+        for (const entry of cell) {
+          if (entry.seen === query) continue;
+          entry.seen = query;
+          found.push(entry);
+        }
+      }
+    }
+
+    // Within one cell entries are already in order; merged cells need a sort
+    if (cellsVisited > 1) found.sort((a, b) => a.order - b.order);
+    return found.map(entry => entry.item);
+  }
+
+  private col(x: number) {
+    return Math.max(0, Math.min(this.cols - 1, Math.floor(x / this.cellSize) + MARGIN));
+  }
+
+  private row(y: number) {
+    return Math.max(0, Math.min(this.rows - 1, Math.floor(y / this.cellSize) + MARGIN));
+  }
+}
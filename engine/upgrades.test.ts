@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { LoadoutId, UpgradeLevels } from '../types';
+import { GameEngine } from './GameEngine';
+import { WEAPONS } from './weapons';
+
+const launch = (loadout: LoadoutId, upgrades: UpgradeLevels) => {
+  const engine = new GameEngine(400, 700, { color: '#fff', trailType: 'standard', loadout, upgrades }, {}, 5);
+  engine.reset(5);
+  return engine.getPlayer();
+};
+
+describe('hangar upgrades', () => {
+  it('launches with the bought max HP', () => {
+    expect(launch('STANDARD', {}).maxHp).toBe(100);
+    expect(launch('STANDARD', { HULL: 2 }).hp).toBe(140);
+  });
+
+  it('raises the starting weapon level only as far as the weapon goes', () => {
+    expect(launch('STANDARD', { ARMORY: 2 }).weaponLevel).toBe(WEAPONS.BLASTER.levels.length);
+    expect(launch('ASSAULT', { ARMORY: 2 }).weaponLevel).toBe(3);
+    expect(launch('INTERCEPTOR', { ARMORY: 2 }).weaponLevel).toBe(Math.min(4, WEAPONS.RAPID.levels.length));
+  });
+});
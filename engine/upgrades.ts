@@ -0,0 +1,88 @@
+import { UpgradeId, UpgradeLevels } from '../types';
+
+/**
+ * Hangar upgrades. Like loadouts they travel in the PlayerConfig, so a replay
+ * or continued sortie flies with the levels it was launched with; the pilot
+ * profile only records which levels have been bought.
+ *
+ * `value` maps a level to the stat the engine uses, with level 0 being the
+ * stock ship, and `format` renders it for the hangar's before/after preview.
+ */
+export interface UpgradeDefinition {
+  name: string;
+  stat: string; // What the preview calls the value
+  costs: number[]; // costs[n] buys level n + 1, so its length is the top level
+  value: (level: number) => number;
+  format: (value: number) => string;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const UPGRADES: Record<UpgradeId, UpgradeDefinition> = {
+  // Max HP (and the HP the ship launches and respawns with)
+  HULL: {
+    name: 'REINFORCED HULL',
+    stat: 'MAX HP',
+    costs: [500, 1200, 2500, 4000],
+    value: level => 100 + level * 20,
+    format: value => `${value}`
+  },
+  // Multiplier on the weapon's cooldown between volleys; shown as a fire rate
+  FIRE_RATE: {
+    name: 'AUTOLOADER',
+    stat: 'FIRE RATE',
+    costs: [800, 1800, 3500],
+    value: level => 1 - level * 0.1,
+    format: value => percent(1 / value)
+  },
+  // Multiplier on PLAYER_SPEED_LERP: how fast the ship closes on the steering target
+  THRUSTERS: {
+    name: 'VECTOR THRUSTERS',
+    stat: 'RESPONSE',
+    costs: [400, 1000, 2000],
+    value: level => 1 + level * 0.2,
+    format: percent
+  },
+  // Chance that a destroyed (non-boss) enemy drops a powerup
+  SALVAGE: {
+    name: 'SALVAGE BEACON',
+    stat: 'DROP CHANCE',
+    costs: [600, 1400, 2800],
+    value: level => 0.15 + level * 0.03,
+    format: percent
+  },
+  // Levels added to the loadout's starting weapon (up to its top level; the single-level BLASTER gains nothing)
+  ARMORY: {
+    name: 'ARMORY',
+    stat: 'START WEAPON',
+    costs: [1500, 4000],
+    value: level => level,
+    format: value => `+${value} LV`
+  }
+};
+
+export const UPGRADE_IDS = Object.keys(UPGRADES) as UpgradeId[];
+
+export const maxUpgradeLevel = (id: UpgradeId) => UPGRADES[id].costs.length;
+
+/** The stat `id` gives a ship with these upgrades. */
+export const upgradeValue = (upgrades: UpgradeLevels | undefined, id: UpgradeId) =>
+  UPGRADES[id].value(upgrades?.[id] ?? 0);
+
+/** Known upgrades from `value` with whole levels clamped to their range; anything else is dropped. */
+export const sanitizeUpgrades = (value: unknown): UpgradeLevels => {
+  const upgrades: UpgradeLevels = {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return upgrades;
+  Object.entries(value).forEach(([id, level]) => {
+    if (!(id in UPGRADES) || typeof level !== 'number' || !Number.isFinite(level)) return;
+    upgrades[id as UpgradeId] = Math.max(0, Math.min(maxUpgradeLevel(id as UpgradeId), Math.floor(level)));
+  });
+  return upgrades;
+};
+
+export const isUpgradeLevels = (value: unknown): value is UpgradeLevels => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  return Object.entries(value).every(([id, level]) =>
+    id in UPGRADES && Number.isInteger(level) && level >= 0 && level <= maxUpgradeLevel(id as UpgradeId)
+  );
+};
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { EngineInput, EngineState, Entity, PowerUpType, Projectile } from '../types';
+import { GameEngine } from './GameEngine';
+import { weaponLevel } from './weapons';
+
+const WIDTH = 480;
+const HEIGHT = 800;
+const IDLE: EngineInput = { target: { x: WIDTH / 2, y: HEIGHT - 40 } };
+
+// A sortie a few seconds in, with at least one enemy fully on screen
+const createSortie = () => {
+  const engine = new GameEngine(WIDTH, HEIGHT, { color: '#fff', trailType: 'standard' }, {}, 5);
+  engine.reset(5);
+  while (!engine.getEnemies().some(e => e.pos.y > 40)) engine.step(IDLE);
+  return engine;
+};
+
+// A motionless player shot over the middle of `e`
+const shotAt = (e: Entity, id: string): Projectile => ({
+  id,
+  pos: { x: e.pos.x + e.size.x / 2 - 4, y: e.pos.y + e.size.y / 2 - 4 },
+  velocity: { x: 0, y: 0 },
+  isPlayer: true,
+  damage: 1,
+  color: '#fff',
+  size: 8,
+  type: 'BLASTER'
+});
+
+// A pickup of `type` right on top of the ship
+const powerUpOn = (player: Entity, type: PowerUpType): Entity => ({
+  id: 'pickup',
+  pos: { x: player.pos.x + player.size.x / 2 - 12, y: player.pos.y + player.size.y / 2 - 12 },
+  size: { x: 24, y: 24 },
+  velocity: { x: 0, y: 0 },
+  hp: 1,
+  maxHp: 1,
+  type: 'powerup',
+  powerUpType: type,
+  color: '#fff',
+  scoreValue: 0,
+  rotation: 0
+});
+
+// An enemy bullet right on the ship's core
+const bulletOn = (player: Entity): Projectile => ({
+  ...shotAt(player, 'bullet'),
+  pos: { x: player.pos.x + player.size.x / 2 - 4, y: player.pos.y + player.size.y / 2 - 8 },
+  isPlayer: false,
+  damage: 15,
+  type: 'ENEMY_PULSE'
+});
+
+// Holds the ship where it is
+const hold = (state: EngineState): EngineInput => ({
+  target: { x: state.player.pos.x + state.player.size.x / 2, y: state.player.pos.y + state.player.size.y / 2 }
+});
+
+// Restores `state` with `edit` applied and runs one tick of `input`
+const stepFrom = (state: EngineState, edit: (state: EngineState) => void, input: EngineInput = IDLE) => {
+  const engine = new GameEngine(WIDTH, HEIGHT, { color: '#fff', trailType: 'standard' }, {}, 1);
+  const copy: EngineState = JSON.parse(JSON.stringify(state));
+  edit(copy);
+  engine.restore(copy);
+  engine.step(input);
+  return engine;
+};
+
+describe('bombs', () => {
+  it('counts an enemy killed by a bomb once, even with a shot landing the same tick', () => {
+    const state = createSortie().serialize();
+    const target = (s: EngineState) => s.enemies.find(e => e.pos.y > 40)!;
+    const edit = (withShot: boolean) => (s: EngineState) => {
+      s.enemies = [target(s)];
+      s.enemies[0].hp = 1;
+      s.projectiles = withShot ? [shotAt(s.enemies[0], 'shot')] : [];
+      s.player.bombs = 1;
+    };
+
+    const bombOnly = stepFrom(state, edit(false), { ...IDLE, bomb: true }).getStats();
+    const bombAndShot = stepFrom(state, edit(true), { ...IDLE, bomb: true }).getStats();
+    expect(bombOnly.enemiesDestroyed).toBe(state.stats.enemiesDestroyed + 1);
+    expect(bombAndShot.enemiesDestroyed).toBe(bombOnly.enemiesDestroyed);
+    expect(bombAndShot.score).toBe(bombOnly.score);
+  });
+});
+
+describe('weapon levels', () => {
+  // The sortie with nothing around but `player` changes and, optionally, one pickup or bullet
+  const fromPlayer = (player: Partial<Entity>, extra?: 'bullet' | PowerUpType) => {
+    const state = createSortie().serialize();
+    state.enemies = [];
+    state.projectiles = [];
+    state.powerups = [];
+    Object.assign(state.player, { invulnTimer: 0 }, player);
+    if (extra === 'bullet') state.projectiles = [bulletOn(state.player)];
+    else if (extra) state.powerups = [powerUpOn(state.player, extra)];
+    return stepFrom(state, () => {}, hold(state)).getPlayer();
+  };
+
+  it('levels up the weapon already carried and keeps the level when switching', () => {
+    expect(fromPlayer({ weaponType: 'SPREAD', weaponLevel: 2 }, 'WEAPON_SPREAD')).toMatchObject({ weaponType: 'SPREAD', weaponLevel: 3 });
+    expect(fromPlayer({ weaponType: 'SPREAD', weaponLevel: 5 }, 'WEAPON_SPREAD')).toMatchObject({ weaponType: 'SPREAD', weaponLevel: 5 });
+    expect(fromPlayer({ weaponType: 'RAPID', weaponLevel: 3 }, 'WEAPON_PLASMA')).toMatchObject({ weaponType: 'PLASMA', weaponLevel: 3 });
+    expect(fromPlayer({ weaponType: 'BLASTER', weaponLevel: 1 }, 'WEAPON_RAPID')).toMatchObject({ weaponType: 'RAPID', weaponLevel: 1 });
+  });
+
+  it('loses a level on a hit, and falls back to the blaster from level 1', () => {
+    const hit = fromPlayer({ weaponType: 'RAPID', weaponLevel: 3 }, 'bullet');
+    expect(hit).toMatchObject({ weaponType: 'RAPID', weaponLevel: 2 });
+    expect(hit.hp).toBe(hit.maxHp - 15);
+    expect(fromPlayer({ weaponType: 'PLASMA', weaponLevel: 1 }, 'bullet')).toMatchObject({ weaponType: 'BLASTER', weaponLevel: 1 });
+  });
+
+  it('fires with the stats of the level it has', () => {
+    expect(weaponLevel('SPREAD', 5).shots).toHaveLength(7);
+    expect(weaponLevel('BLASTER', 4)).toBe(weaponLevel('BLASTER', 1));
+    expect(weaponLevel('PLASMA', 0)).toBe(weaponLevel('PLASMA', 1));
+  });
+});
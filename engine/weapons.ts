@@ -0,0 +1,110 @@
+import { BulletMotion, PlayerWeaponType } from '../types';
+
+export const MAX_WEAPON_LEVEL = 5;
+
+// One projectile of a volley, relative to the ship's nose
+export interface WeaponShot {
+  dx: number; // Horizontal offset from the nose
+  vx: number;
+  vy: number;
+}
+
+export interface WeaponLevel {
+  cooldown: number; // Ticks between volleys
+  damage: number;
+  size: number;
+  shots: WeaponShot[];
+}
+
+export interface WeaponDefinition {
+  color: string;
+  levels: WeaponLevel[]; // Index 0 is level 1
+}
+
+const straight = (vy: number): WeaponShot[] => [{ dx: 0, vx: 0, vy }];
+const twin = (vy: number): WeaponShot[] => [{ dx: -6, vx: 0, vy }, { dx: 6, vx: 0, vy }];
+
+// Fan of `streams` shots, `step` px/tick of sideways speed apart
+const fan = (streams: number, step: number): WeaponShot[] =>
+  Array.from({ length: streams }, (_, i) => {
+    const vx = (i - (streams - 1) / 2) * step;
+    return { dx: 0, vx, vy: -12 + Math.abs(vx) / 3 };
+  });
+
+/**
+ * Per-level stats for every player weapon. Picking up the weapon you already
+ * carry raises its level; getting hit lowers it by one.
+ */
+export const WEAPONS: Record<PlayerWeaponType, WeaponDefinition> = {
+  // Starting gun; pickups replace it rather than level it
+  BLASTER: {
+    color: '#34d399',
+    levels: [{ cooldown: 15, damage: 1, size: 4, shots: straight(-14) }]
+  },
+  SPREAD: {
+    color: '#eab308',
+    levels: [
+      { cooldown: 15, damage: 1, size: 4, shots: fan(3, 3) },
+      { cooldown: 13, damage: 1, size: 4, shots: fan(3, 3) },
+      { cooldown: 13, damage: 1, size: 4, shots: fan(5, 2.5) },
+      { cooldown: 12, damage: 1, size: 5, shots: fan(5, 2.5) },
+      { cooldown: 11, damage: 1, size: 5, shots: fan(7, 2) }
+    ]
+  },
+  RAPID: {
+    color: '#06b6d4',
+    levels: [
+      { cooldown: 8, damage: 1, size: 3, shots: straight(-14) },
+      { cooldown: 7, damage: 1, size: 3, shots: straight(-14) },
+      { cooldown: 6, damage: 1, size: 3, shots: straight(-15) },
+      { cooldown: 6, damage: 1, size: 3, shots: twin(-15) },
+      { cooldown: 5, damage: 1, size: 3, shots: twin(-16) }
+    ]
+  },
+  PLASMA: {
+    color: '#a855f7',
+    levels: [
+      { cooldown: 15, damage: 3, size: 8, shots: straight(-16) },
+      { cooldown: 15, damage: 4, size: 10, shots: straight(-16) },
+      { cooldown: 14, damage: 5, size: 12, shots: straight(-16) },
+      { cooldown: 14, damage: 6, size: 14, shots: straight(-17) },
+      { cooldown: 13, damage: 8, size: 16, shots: straight(-17) }
+    ]
+  }
+};
+
+/** Stats for a weapon at a level, clamped to the levels it actually has. */
+export const weaponLevel = (weapon: PlayerWeaponType, level: number): WeaponLevel => {
+  const { levels } = WEAPONS[weapon];
+  return levels[Math.max(1, Math.min(levels.length, level)) - 1];
+};
+
+// --- Secondary weapons ---
+// One trigger: a tap fires a missile salvo, holding it past CHARGE_MIN_TICKS
+// and letting go fires a charge shot instead. Bombs have their own button.
+
+export const MISSILE_AMMO = 12; // Refilled at the start of every wave
+export const MISSILE_SALVO = 2;
+export const MISSILE_DAMAGE = 4;
+export const MISSILE_COOLDOWN = 40;
+export const MISSILE_COLOR = '#fb923c';
+
+// Launched sideways-up at low speed, then accelerating onto the nearest enemy
+export const MISSILE_MOTION: BulletMotion = { accel: 0.3, maxSpeed: 11, homing: 6 };
+
+export const CHARGE_MIN_TICKS = 20; // Shorter presses count as a tap
+export const CHARGE_MAX_TICKS = 90; // Full power
+export const CHARGE_COOLDOWN = 30;
+export const CHARGE_COLOR = '#e879f9';
+
+export const BOMB_STOCK = 2; // Bombs at the start of a sortie
+export const MAX_BOMBS = 5;
+export const BOMB_DAMAGE = 20; // To every enemy on screen
+export const BOMB_INVULN_TICKS = 120;
+export const BOMB_FLASH_TICKS = 20;
+
+/** Damage and size of a charge shot released after `held` ticks. */
+export const chargeShot = (held: number) => {
+  const power = Math.min(1, Math.max(0, (held - CHARGE_MIN_TICKS) / (CHARGE_MAX_TICKS - CHARGE_MIN_TICKS)));
+  return { power, damage: Math.round(8 + power * 32), size: Math.round(14 + power * 14) };
+};
@@ -0,0 +1,139 @@
+// Frame-cost benchmark for bullet-heavy scenes: `npm run bench`.
+// Fills a seeded sortie with N stationary enemy bullets (and optionally extra
+// enemies), then times whole engine ticks and the collision pass on its own:
+// grid broadphase vs. testing every pair, as the engine did before engine/spatialGrid.ts.
+import { GameEngine, TICK_MS } from '../engine/GameEngine';
+import { enemyHitbox } from '../engine/enemies';
+import { Hitbox, hitboxBounds, hitboxesOverlap, playerCore, playerHull, powerUpHitbox, projectileHitbox } from '../engine/hitboxes';
+import { SpatialGrid } from '../engine/spatialGrid';
+import { Random } from '../utils/random';
+
+const WIDTH = 480;
+const HEIGHT = 800;
+const SEED = 1234;
+const WARMUP_TICKS = 900; // Long enough for the first wave to fill the screen
+const TIMED_TICKS = 600;
+const COLLISION_ROUNDS = 500;
+const BULLET_COUNTS = [0, 1000, 2000, 4000];
+const ENEMY_COUNTS = [0, 60]; // 0 = whatever the wave has on screen
+
+const input = (tick: number) => ({ target: { x: WIDTH / 2 + Math.sin(tick / 40) * 160, y: HEIGHT - 120 } });
+
+const createScene = (bullets: number, enemies: number): GameEngine => {
+  const engine = new GameEngine(WIDTH, HEIGHT, { color: '#22d3ee', trailType: 'standard' }, {}, SEED);
+  engine.reset(SEED);
+
+  // A maxed spread gun keeps plenty of player shots in the air
+  const start = engine.serialize();
+  start.player.weaponType = 'SPREAD';
+  start.player.weaponLevel = 5;
+  engine.restore(start);
+  for (let i = 0; i < WARMUP_TICKS; i++) engine.step(input(i));
+
+  // Park the bullets above the ship so the run isn't cut short by a game over
+  const state = engine.serialize();
+  const rng = new Random(SEED);
+  state.player.hp = state.player.maxHp = 1e9;
+  state.stats.mission.targetValue = 1e9; // Keep the wave (and its bullets) going
+  const wave = state.enemies.filter(e => e.type !== 'boss');
+  for (let i = 0; wave.length && state.enemies.length < enemies; i++) {
+    const copy = JSON.parse(JSON.stringify(wave[i % wave.length]));
+    state.enemies.push({ ...copy, id: `bench-enemy-${i}`, pos: { x: rng.range(0, WIDTH - copy.size.x), y: rng.range(0, HEIGHT / 2) } });
+  }
+  for (let i = 0; i < bullets; i++) {
+    state.projectiles.push({
+      id: `bench-${i}`,
+      pos: { x: rng.range(0, WIDTH), y: rng.range(0, HEIGHT - 300) },
+      velocity: { x: 0, y: 0 },
+      isPlayer: false,
+      damage: 15,
+      color: '#ef4444',
+      size: 8,
+      type: 'ENEMY_PULSE'
+    });
+  }
+  engine.restore(state);
+  return engine;
+};
+
+const time = (run: () => void) => {
+  const start = performance.now();
+  run();
+  return performance.now() - start;
+};
+
+const percentile = (samples: number[], p: number) => {
+  const sorted = [...samples].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+};
+
+// Same checks as the engine's collision pass, minus the consequences
+const bruteForce = (engine: GameEngine) => {
+  const p = engine.getPlayer();
+  const core = playerCore(p);
+  const hull = playerHull(p);
+  const enemies = engine.getEnemies().map(enemyHitbox);
+  let hits = 0;
+  engine.getProjectiles().forEach(proj => {
+    const shot = projectileHitbox(proj);
+    if (proj.isPlayer) hits += enemies.filter(box => hitboxesOverlap(shot, box)).length;
+    else if (hitboxesOverlap(shot, core)) hits++;
+  });
+  hits += enemies.filter(box => hitboxesOverlap(core, box)).length;
+  hits += engine.getPowerUps().filter(pu => hitboxesOverlap(hull, powerUpHitbox(pu))).length;
+  return hits;
+};
+
+const grids = {
+  enemy: new SpatialGrid<Hitbox>(WIDTH, HEIGHT),
+  bullet: new SpatialGrid<Hitbox>(WIDTH, HEIGHT),
+  powerup: new SpatialGrid<Hitbox>(WIDTH, HEIGHT)
+};
+const broadphase = (engine: GameEngine) => {
+  const p = engine.getPlayer();
+  const add = (grid: SpatialGrid<Hitbox>, box: Hitbox) => grid.insert(box, hitboxBounds(box));
+  const touching = (box: Hitbox, grid: SpatialGrid<Hitbox>) =>
+    grid.search(hitboxBounds(box)).filter(other => hitboxesOverlap(box, other)).length;
+
+  Object.values(grids).forEach(grid => grid.clear());
+  engine.getEnemies().forEach(e => add(grids.enemy, enemyHitbox(e)));
+  engine.getProjectiles().forEach(proj => {
+    if (!proj.isPlayer) add(grids.bullet, projectileHitbox(proj));
+  });
+  engine.getPowerUps().forEach(pu => add(grids.powerup, powerUpHitbox(pu)));
+
+  let hits = 0;
+  engine.getProjectiles().forEach(proj => {
+    if (proj.isPlayer) hits += touching(projectileHitbox(proj), grids.enemy);
+  });
+  const core = playerCore(p);
+  hits += touching(core, grids.bullet) + touching(core, grids.enemy) + touching(playerHull(p), grids.powerup);
+  return hits;
+};
+
+const fmt = (ms: number) => ms.toFixed(3).padStart(8);
+
+console.log(`Frame budget ${TICK_MS.toFixed(2)} ms, ${TIMED_TICKS} ticks per scene\n`);
+console.log('bullets  enemies   shots |  tick avg   tick p95 | all-pairs  grid pass');
+
+ENEMY_COUNTS.forEach(enemyCount => BULLET_COUNTS.forEach(count => {
+  const engine = createScene(count, enemyCount);
+  const projectiles = engine.getProjectiles();
+  const enemies = engine.getEnemies().length;
+  const shots = projectiles.filter(proj => proj.isPlayer).length;
+  const bullets = projectiles.length - shots;
+
+  // The collision pass alone, on the scene as it was after the warmup
+  if (bruteForce(engine) !== broadphase(engine)) throw new Error('Grid and all-pairs checks disagree');
+  const allPairs = time(() => { for (let i = 0; i < COLLISION_ROUNDS; i++) bruteForce(engine); }) / COLLISION_ROUNDS;
+  const gridPass = time(() => { for (let i = 0; i < COLLISION_ROUNDS; i++) broadphase(engine); }) / COLLISION_ROUNDS;
+
+  const ticks: number[] = [];
+  for (let i = 0; i < TIMED_TICKS; i++) ticks.push(time(() => engine.step(input(WARMUP_TICKS + i))));
+  const avg = ticks.reduce((sum, ms) => sum + ms, 0) / ticks.length;
+
+  console.log(
+    `${String(bullets).padStart(7)}  ${String(enemies).padStart(7)}  ${String(shots).padStart(6)} |` +
+    `${fmt(avg)}   ${fmt(percentile(ticks, 0.95))} | ${fmt(allPairs)}   ${fmt(gridPass)}`
+  );
+}));
@@ -0,0 +1,36 @@
+import { AudioSettings } from '../types';
+
+const STORAGE_KEY = 'garuda_audio';
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  master: 0.8,
+  music: 0.6,
+  sfx: 0.8,
+  muted: false
+};
+
+const level = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.min(1, value)) : fallback;
+
+// Missing or damaged fields fall back to the defaults one by one
+export const loadAudioSettings = (): AudioSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return {
+      master: level(stored.master, DEFAULT_AUDIO_SETTINGS.master),
+      music: level(stored.music, DEFAULT_AUDIO_SETTINGS.music),
+      sfx: level(stored.sfx, DEFAULT_AUDIO_SETTINGS.sfx),
+      muted: typeof stored.muted === 'boolean' ? stored.muted : DEFAULT_AUDIO_SETTINGS.muted
+    };
+  } catch {
+    return { ...DEFAULT_AUDIO_SETTINGS };
+  }
+};
+
+export const saveAudioSettings = (settings: AudioSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage full or disabled: the levels last until the page closes
+  }
+};
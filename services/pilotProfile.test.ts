@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// A fresh copy of the module per test, since a newer profile makes it read-only
+const loadModule = () => import('./pilotProfile');
+
+let storage: Record<string, string>;
+
+beforeEach(() => {
+  vi.resetModules();
+  storage = {};
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage[key] ?? null,
+    setItem: (key: string, value: string) => { storage[key] = value; }
+  });
+});
+
+describe('pilot profile', () => {
+  it('leaves a profile from a newer version untouched', async () => {
+    const { loadPilotProfile, savePilotProfile } = await loadModule();
+    const stored = JSON.stringify({ version: 99, credits: 5000 });
+    storage.garuda_pilot = stored;
+
+    const profile = loadPilotProfile();
+    expect(profile.credits).toBe(0);
+    savePilotProfile({ ...profile, credits: 10 });
+    expect(storage.garuda_pilot).toBe(stored);
+  });
+
+  it('sets an unreadable profile aside before starting over', async () => {
+    const { loadPilotProfile, savePilotProfile } = await loadModule();
+    storage.garuda_pilot = '{"version": 2, "cred';
+
+    savePilotProfile(loadPilotProfile());
+    expect(storage.garuda_pilot_unreadable).toBe('{"version": 2, "cred');
+    expect(JSON.parse(storage.garuda_pilot).credits).toBe(0);
+  });
+
+  it('keeps the valid upgrades and clamps the rest one by one', async () => {
+    const { loadPilotProfile } = await loadModule();
+    storage.garuda_pilot = JSON.stringify({
+      version: 2,
+      credits: 300,
+      upgrades: { HULL: 2, FIRE_RATE: 99, THRUSTERS: -1, SALVAGE: 'x', WARP: 1 }
+    });
+
+    const profile = loadPilotProfile();
+    expect(profile.credits).toBe(300);
+    expect(profile.upgrades).toEqual({ HULL: 2, FIRE_RATE: 3, THRUSTERS: 0 });
+  });
+
+  it('migrates a version 1 profile', async () => {
+    const { loadPilotProfile } = await loadModule();
+    storage.garuda_pilot = JSON.stringify({ version: 1, credits: 700, unlocked: ['trail:ember'] });
+
+    const profile = loadPilotProfile();
+    expect(profile).toMatchObject({ version: 2, credits: 700, unlocked: ['trail:ember'], upgrades: {} });
+  });
+});
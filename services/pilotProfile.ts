@@ -0,0 +1,122 @@
+import { GameStats, PilotProfile } from '../types';
+import { sanitizeUpgrades } from '../engine/upgrades';
+import { DEFAULT_PLAYER_CONFIG, ownedConfig } from './unlocks';
+
+const STORAGE_KEY = 'garuda_pilot';
+const BACKUP_KEY = 'garuda_pilot_unreadable'; // Where a profile we couldn't read is set aside
+
+// Bump whenever PilotProfile changes shape, and add a migration from the old version
+export const PILOT_PROFILE_VERSION = 2;
+
+// MIGRATIONS[n] turns a version n profile into a version n + 1 one. Profiles
+// are only ever upgraded step by step, so each entry just handles one change.
+const MIGRATIONS: Record<number, (old: any) => any> = {
+  // 1 -> 2: hangar upgrade tree; nothing bought yet
+  1: old => ({ ...old, upgrades: {} })
+};
+
+// Credits for a finished sortie: a cut of the score plus a bonus per wave cleared
+const CREDITS_PER_SCORE = 1 / 100;
+const CREDITS_PER_WAVE = 25;
+
+export const createPilotProfile = (): PilotProfile => ({
+  version: PILOT_PROFILE_VERSION,
+  sorties: 0,
+  kills: 0,
+  bestWave: 0,
+  lifetimeScore: 0,
+  playtime: 0,
+  credits: 0,
+  unlocked: [],
+  upgrades: {},
+  config: { ...DEFAULT_PLAYER_CONFIG }
+});
+
+const count = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.floor(value)) : 0;
+
+// Missing or damaged fields fall back to a fresh pilot's one by one
+const sanitize = (stored: any): PilotProfile => {
+  const profile: PilotProfile = {
+    version: PILOT_PROFILE_VERSION,
+    sorties: count(stored.sorties),
+    kills: count(stored.kills),
+    bestWave: count(stored.bestWave),
+    lifetimeScore: count(stored.lifetimeScore),
+    playtime: count(stored.playtime),
+    credits: count(stored.credits),
+    unlocked: Array.isArray(stored.unlocked) ? stored.unlocked.filter((key: unknown) => typeof key === 'string') : [],
+    upgrades: sanitizeUpgrades(stored.upgrades),
+    config: DEFAULT_PLAYER_CONFIG
+  };
+  profile.config = ownedConfig(profile, { ...DEFAULT_PLAYER_CONFIG, ...stored.config });
+  return profile;
+};
+
+/** Upgrades a stored profile of any earlier version to the current format. */
+export const migratePilotProfile = (stored: any): PilotProfile => {
+  let profile = stored;
+  let version = typeof profile.version === 'number' ? profile.version : 0;
+  if (version > PILOT_PROFILE_VERSION) throw new Error(`Pilot profile is from a newer version (${version})`);
+  while (version < PILOT_PROFILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from pilot profile version ${version}`);
+    profile = { ...migrate(profile), version: version + 1 };
+    version++;
+  }
+  return sanitize(profile);
+};
+
+// Set when the stored profile must survive this session untouched
+let readOnly = false;
+
+/**
+ * The stored profile, or a fresh pilot when there is none or it can't be used.
+ * A profile from a newer build is left alone (this session's progress isn't
+ * saved); one that can't be read is set aside under BACKUP_KEY first.
+ */
+export const loadPilotProfile = (): PilotProfile => {
+  let stored: string | null = null;
+  try {
+    stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return createPilotProfile();
+    const data = JSON.parse(stored);
+    if (data && typeof data.version === 'number' && data.version > PILOT_PROFILE_VERSION) {
+      readOnly = true;
+      return createPilotProfile();
+    }
+    return migratePilotProfile(data);
+  } catch {
+    if (stored) {
+      try {
+        localStorage.setItem(BACKUP_KEY, stored);
+      } catch {
+        readOnly = true; // Nowhere to keep it: don't write over it either
+      }
+    }
+    return createPilotProfile();
+  }
+};
+
+export const savePilotProfile = (profile: PilotProfile) => {
+  if (readOnly) return;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch {
+    // Storage full or disabled: progress lasts until the page closes
+  }
+};
+
+export const creditsForSortie = (stats: GameStats) =>
+  Math.floor(stats.score * CREDITS_PER_SCORE) + (stats.wave - 1) * CREDITS_PER_WAVE;
+
+/** The profile after a finished sortie `seconds` long, with its credits paid out. */
+export const recordSortie = (profile: PilotProfile, stats: GameStats, seconds: number): PilotProfile => ({
+  ...profile,
+  sorties: profile.sorties + 1,
+  kills: profile.kills + stats.enemiesDestroyed,
+  bestWave: Math.max(profile.bestWave, stats.wave),
+  lifetimeScore: profile.lifetimeScore + stats.score,
+  playtime: profile.playtime + Math.round(seconds),
+  credits: profile.credits + creditsForSortie(stats)
+});
@@ -0,0 +1,47 @@
+import { EngineState, ReplayData, SortieSave } from '../types';
+
+const STORAGE_KEY = 'garuda_sortie';
+
+// Bump whenever EngineState changes shape, including the fields of the entities
+// and projectiles it carries, or the replay config it is saved with; older
+// snapshots are discarded rather than patched up with defaults.
+// 6: secondary weapons, bombs, timed powerups, lives, loadouts and upgrades
+export const SORTIE_SAVE_VERSION = 6;
+
+export const saveSortie = (engine: EngineState, replay: ReplayData) => {
+  const save: SortieSave = {
+    version: SORTIE_SAVE_VERSION,
+    savedAt: Date.now(),
+    engine,
+    replay
+  };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(save));
+  } catch {
+    // Storage full or disabled: the run just can't be continued later
+  }
+};
+
+export const loadSortie = (): SortieSave | null => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return null;
+
+  try {
+    const save = JSON.parse(stored) as SortieSave;
+    if (save.version !== SORTIE_SAVE_VERSION || !save.engine || !save.replay) {
+      throw new Error('Incompatible sortie save');
+    }
+    // A downed pilot has nothing to continue
+    if (save.engine.player.hp <= 0) {
+      throw new Error('Sortie already over');
+    }
+    return save;
+  } catch {
+    localStorage.removeItem(STORAGE_KEY);
+    return null;
+  }
+};
+
+export const clearSortie = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
@@ -0,0 +1,96 @@
+import { LoadoutId, PilotProfile, PlayerConfig, TrailType, UpgradeId } from '../types';
+import { DEFAULT_LOADOUT, LOADOUTS } from '../engine/loadouts';
+import { UPGRADES } from '../engine/upgrades';
+
+/**
+ * Everything the hangar offers. Entries costing 0 credits are stock; the rest
+ * are bought once with credits from sorties and recorded in the pilot profile
+ * under their unlock key.
+ */
+export interface Unlockable<T> {
+  value: T;
+  name: string;
+  cost: number;
+}
+
+export const HULL_COLORS: Unlockable<string>[] = [
+  { value: '#3b82f6', name: 'COBALT', cost: 0 },
+  { value: '#ef4444', name: 'CRIMSON', cost: 0 },
+  { value: '#22c55e', name: 'EMERALD', cost: 0 },
+  { value: '#eab308', name: 'AMBER', cost: 0 },
+  { value: '#a855f7', name: 'VOID', cost: 0 },
+  { value: '#06b6d4', name: 'CYBER', cost: 0 },
+  { value: '#f97316', name: 'SOLAR', cost: 400 },
+  { value: '#ec4899', name: 'NEON ROSE', cost: 600 },
+  { value: '#84cc16', name: 'TOXIC', cost: 800 },
+  { value: '#e2e8f0', name: 'CHROME', cost: 1200 },
+  { value: '#fde047', name: 'GILDED', cost: 2000 },
+  { value: '#f0abfc', name: 'AURORA', cost: 3000 },
+];
+
+export const TRAILS: Unlockable<TrailType>[] = [
+  { value: 'standard', name: 'ION DRIVE', cost: 0 },
+  { value: 'plasma', name: 'PLASMA CORE', cost: 0 },
+  { value: 'turbo', name: 'AFTERBURNER', cost: 0 },
+  { value: 'ember', name: 'EMBER FURNACE', cost: 1500 },
+  { value: 'prism', name: 'PRISM DRIVE', cost: 3500 },
+];
+
+export const LOADOUT_UNLOCKS: Unlockable<LoadoutId>[] = [
+  { value: 'STANDARD', name: LOADOUTS.STANDARD.name, cost: 0 },
+  { value: 'ASSAULT', name: LOADOUTS.ASSAULT.name, cost: 1000 },
+  { value: 'INTERCEPTOR', name: LOADOUTS.INTERCEPTOR.name, cost: 2000 },
+  { value: 'SIEGE', name: LOADOUTS.SIEGE.name, cost: 3000 },
+];
+
+export type UnlockKind = 'hull' | 'trail' | 'loadout';
+
+// How an item is recorded in PilotProfile.unlocked
+export const unlockKey = (kind: UnlockKind, value: string) => `${kind}:${value}`;
+
+export const isUnlocked = (profile: PilotProfile, kind: UnlockKind, item: Unlockable<string>) =>
+  item.cost === 0 || profile.unlocked.includes(unlockKey(kind, item.value));
+
+/** The profile after buying `item`, or null when it is owned or unaffordable. */
+export const purchase = (profile: PilotProfile, kind: UnlockKind, item: Unlockable<string>): PilotProfile | null => {
+  if (isUnlocked(profile, kind, item) || profile.credits < item.cost) return null;
+  return {
+    ...profile,
+    credits: profile.credits - item.cost,
+    unlocked: [...profile.unlocked, unlockKey(kind, item.value)]
+  };
+};
+
+// Credits for the next level of an upgrade, or null once it is maxed out
+export const nextUpgradeCost = (profile: PilotProfile, id: UpgradeId): number | null =>
+  UPGRADES[id].costs[profile.upgrades[id] ?? 0] ?? null;
+
+/** The profile after buying the next level of `id`, or null when maxed or unaffordable. */
+export const purchaseUpgrade = (profile: PilotProfile, id: UpgradeId): PilotProfile | null => {
+  const cost = nextUpgradeCost(profile, id);
+  if (cost === null || profile.credits < cost) return null;
+  return {
+    ...profile,
+    credits: profile.credits - cost,
+    upgrades: { ...profile.upgrades, [id]: (profile.upgrades[id] ?? 0) + 1 }
+  };
+};
+
+export const DEFAULT_PLAYER_CONFIG: PlayerConfig = {
+  color: HULL_COLORS[0].value,
+  trailType: TRAILS[0].value,
+  loadout: DEFAULT_LOADOUT
+};
+
+// Swaps anything in `config` the pilot doesn't own (or that no longer exists) for the stock pick
+export const ownedConfig = (profile: PilotProfile, config: PlayerConfig): PlayerConfig => {
+  const owned = <T extends string>(kind: UnlockKind, items: Unlockable<T>[], value: T | undefined, fallback: T) => {
+    const item = items.find(i => i.value === value);
+    return item && isUnlocked(profile, kind, item) ? item.value : fallback;
+  };
+  return {
+    color: owned('hull', HULL_COLORS, config.color, DEFAULT_PLAYER_CONFIG.color),
+    trailType: owned('trail', TRAILS, config.trailType, DEFAULT_PLAYER_CONFIG.trailType),
+    loadout: owned('loadout', LOADOUT_UNLOCKS, config.loadout, DEFAULT_LOADOUT)
+  };
+};
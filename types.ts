@@ -2,18 +2,31 @@
 export enum GameState {
   MENU = 'MENU',
   PLAYING = 'PLAYING',
+  PAUSED = 'PAUSED',
   GAME_OVER = 'GAME_OVER',
-  CUSTOMIZE = 'CUSTOMIZE'
+  CUSTOMIZE = 'CUSTOMIZE',
+  REPLAY = 'REPLAY'
 }
 
-export type TrailType = 'standard' | 'plasma' | 'turbo';
-export type WeaponType = 'BLASTER' | 'SPREAD' | 'RAPID' | 'PLASMA' | 'ENEMY_PULSE' | 'ENEMY_BEAM';
-export type PowerUpType = 'HEALTH' | 'WEAPON_SPREAD' | 'WEAPON_RAPID' | 'WEAPON_PLASMA';
+export type TrailType = 'standard' | 'plasma' | 'turbo' | 'ember' | 'prism';
+export type PlayerWeaponType = 'BLASTER' | 'SPREAD' | 'RAPID' | 'PLASMA'; // See engine/weapons.ts
+export type WeaponType = PlayerWeaponType | 'MISSILE' | 'CHARGE' | 'ENEMY_PULSE' | 'ENEMY_BEAM';
+export type TimedPowerUpType = 'SHIELD' | 'MAGNET' | 'SCORE_X2' | 'SLOW';
+export type PowerUpType = 'HEALTH' | 'WEAPON_SPREAD' | 'WEAPON_RAPID' | 'WEAPON_PLASMA' | 'BOMB' | TimedPowerUpType; // See engine/powerups.ts
 export type MissionType = 'ELIMINATION' | 'SURVIVAL' | 'BOSS';
+export type EnemyType = 'enemy_basic' | 'enemy_fast' | 'enemy_kamikaze' | 'enemy_gunner' | 'enemy_turret' | 'enemy_sniper' | 'boss'; // See engine/enemies.ts
+export type BossId = 'dreadnought' | 'hydra' | 'seraph'; // See engine/bosses.ts
+export type FormationType = 'V' | 'COLUMN' | 'SNAKE' | 'FLANK_LEFT' | 'FLANK_RIGHT';
+export type InputDevice = 'pointer' | 'keyboard' | 'gamepad';
+export type LoadoutId = 'STANDARD' | 'ASSAULT' | 'INTERCEPTOR' | 'SIEGE'; // See engine/loadouts.ts
+export type UpgradeId = 'HULL' | 'FIRE_RATE' | 'THRUSTERS' | 'SALVAGE' | 'ARMORY'; // See engine/upgrades.ts
+export type UpgradeLevels = Partial<Record<UpgradeId, number>>; // Missing = level 0
 
 export interface PlayerConfig {
   color: string;
   trailType: TrailType;
+  loadout?: LoadoutId; // Starting weapon and bombs; runs from before loadouts flew STANDARD
+  upgrades?: UpgradeLevels; // Hangar upgrades the sortie launched with
 }
 
 export interface Vector2D {
@@ -29,34 +42,117 @@ export interface Entity {
   color: string;
   hp: number;
   maxHp: number;
-  type: 'player' | 'enemy_basic' | 'enemy_fast' | 'enemy_kamikaze' | 'boss' | 'powerup';
+  type: 'player' | EnemyType | 'powerup';
   powerUpType?: PowerUpType; // Only for type === 'powerup'
-  weaponType?: WeaponType;   // Only for type === 'player'
+  weaponType?: PlayerWeaponType; // Only for type === 'player'
+  weaponLevel?: number;      // 1..MAX_WEAPON_LEVEL
+  missiles?: number; // Secondary weapon ammo, refilled every wave
+  bombs?: number;
+  secondaryCooldown?: number; // Ticks until missiles or a charge shot can fire again
+  charge?: number; // Ticks the secondary trigger has been held
+  invulnTimer?: number; // Ticks of immunity left (after a hit, a bomb or a respawn)
+  lives?: number; // Ships left, including the one flying
+  extraLives?: number; // Score-milestone lives awarded so far
+  effects?: Partial<Record<TimedPowerUpType, number>>; // Ticks left on each active timed powerup
+  shieldHits?: number; // Hits the active shield can still absorb
   scoreValue: number;
   // Visuals
   hitTimer?: number; // For flashing white when hit
   rotation?: number; // For rotating enemies
   bankAngle?: number; // For player tilting
+  prevPos?: Vector2D; // Position at the previous tick, for render interpolation
   // Boss specific
+  bossId?: BossId;
   phase?: number;
+  phaseTimer?: number; // Ticks left in a phase-transition animation; invulnerable meanwhile
+  parts?: BossPart[];
   attackTimer?: number;
   moveTimer?: number;
+  // Shooter specific
+  chargeTimer?: number; // Ticks left on a telegraphed shot
+  aim?: Vector2D; // Locked firing direction while charging
+  // Formation specific
+  path?: EnemyPath; // Scripted flight path, overrides the archetype's movement
+  pathTime?: number; // Ticks flown along the path
+}
+
+// Destructible sub-part of a boss (turret, head, pod); offset is from the boss center
+export interface BossPart {
+  id: string;
+  offset: Vector2D;
+  size: Vector2D;
+  hp: number;
+  maxHp: number;
+  hitTimer?: number;
+}
+
+// Parametric flight paths in playfield fractions (0..1), see engine/formations.ts
+export type EnemyPath =
+  | { kind: 'spline'; points: Vector2D[]; duration: number }
+  | { kind: 'sine'; x: number; amplitude: number; cycles: number; startY: number; endY: number; duration: number };
+
+// A formation member waiting for its launch tick
+export interface PendingSpawn {
+  at: number; // Engine tick to launch on
+  type: EnemyType;
+  path: EnemyPath;
 }
 
 export interface Projectile {
   id: string;
   pos: Vector2D;
+  prevPos?: Vector2D;
   velocity: Vector2D;
   isPlayer: boolean;
   damage: number;
   color: string;
   size: number;
   type?: WeaponType; // To determine render style
+  // Patterned enemy bullets (see engine/patterns.ts); plain bullets fly straight
+  motion?: BulletMotion;
+  age?: number; // Ticks since fired
+  heading?: number; // Radians; kept separately so a bullet can stop and still turn
+  speed?: number;
+  accel?: number; // Current speed change per tick; turns can change it
+  // Charge shots pass through enemies, hitting each one once
+  pierce?: boolean;
+  hitIds?: string[];
+}
+
+// How a patterned bullet moves after it is fired. Angles are in degrees, times in ticks.
+export interface BulletMotion {
+  accel?: number; // Initial speed change per tick
+  minSpeed?: number;
+  maxSpeed?: number;
+  curve?: number; // Constant turn per tick (angular velocity)
+  homing?: number; // Max turn per tick towards the player (enemy bullets) or the nearest enemy (missiles)
+  homingTicks?: number; // How long homing lasts
+  turns?: BulletTurn[]; // Scheduled direction changes
+}
+
+export interface BulletTurn {
+  at: number; // Bullet age in ticks
+  angle?: number; // Relative turn
+  aim?: boolean; // Re-aim at the player instead
+  speed?: number; // New speed
+  accel?: number; // New acceleration
+}
+
+// A pattern being fired from an enemy over several ticks (delays, bursts, spirals)
+export interface Emitter {
+  pattern: string;
+  sourceId: string; // Enemy it fires from; the emitter dies with it
+  offset: Vector2D; // From the source's center
+  angle?: number; // Radians; overrides the pattern's own direction
+  count?: number; // Overrides the pattern's bullet count
+  volley: number; // Volleys fired so far
+  timer: number; // Ticks until the next volley
 }
 
 export interface Particle {
   id: string;
   pos: Vector2D;
+  prevPos?: Vector2D;
   velocity: Vector2D;
   life: number;
   maxLife: number;
@@ -68,6 +164,7 @@ export interface FloatingText {
   id: string;
   text: string;
   pos: Vector2D;
+  prevPos?: Vector2D;
   velocity: Vector2D;
   life: number;
   color: string;
@@ -81,6 +178,7 @@ export interface MissionState {
   currentValue: number; // e.g., current kills or time passed
   isComplete: boolean;
   timer?: number; // Internal timer for survival
+  bossId?: BossId; // Who a BOSS mission sends in
 }
 
 export interface GameStats {
@@ -91,4 +189,129 @@ export interface GameStats {
   combo: number;
   maxCombo: number;
   mission: MissionState;
-}
\ No newline at end of file
+}
+// Per-frame input fed to the simulation
+export interface EngineInput {
+  target: Vector2D; // Where the pilot is steering towards (touch/mouse position)
+  secondary?: boolean; // Secondary trigger held: tap for missiles, hold and release for a charge shot
+  bomb?: boolean; // Bomb pressed this tick
+}
+
+// Read-only view of the simulation used for rendering
+export interface EngineSnapshot {
+  frame: number;
+  width: number;
+  height: number;
+  player: Readonly<Entity>;
+  enemies: readonly Entity[];
+  powerups: readonly Entity[];
+  projectiles: readonly Projectile[];
+  particles: readonly Particle[];
+  floatingTexts: readonly FloatingText[];
+  stats: Readonly<GameStats>;
+  shakeIntensity: number;
+  waveTransitionTimer: number;
+  bombFlash: number; // Ticks left on the bomb's screen flash
+}
+
+// --- Campaign files (see engine/campaign.ts) ---
+// Times are in seconds from the start of the wave; x positions are fractions of the playfield width
+
+export interface CampaignMission {
+  type: MissionType;
+  target?: number; // Kills (ELIMINATION) or seconds (SURVIVAL); ignored for BOSS
+  description?: string; // Defaults to the procedural wording
+}
+
+// Repeating spawn: one `enemy` every `every` seconds between `start` and `end`
+export interface CampaignSpawn {
+  enemy: EnemyType;
+  every: number;
+  start?: number;
+  end?: number; // Open-ended when omitted
+}
+
+export type CampaignEvent =
+  | { at: number; kind: 'formation'; formation: FormationType }
+  | { at: number; kind: 'enemy'; enemy: EnemyType; x: number }
+  | { at: number; kind: 'powerup'; x: number }
+  | { at: number; kind: 'message'; text: string };
+
+export interface CampaignWave {
+  mission: CampaignMission;
+  boss?: BossId; // BOSS waves only; defaults to the roster rotation
+  spawns: CampaignSpawn[];
+  events: CampaignEvent[];
+}
+
+// Authored stage list; waves past the end fall back to procedural generation
+export interface Campaign {
+  version: number;
+  name: string;
+  waves: CampaignWave[];
+}
+
+// Recorded sortie: seed + loadout + every steering input, enough to re-simulate the run
+export interface ReplayData {
+  version: number;
+  seed: number;
+  config: PlayerConfig;
+  width: number;
+  height: number;
+  score: number;
+  inputs: number[]; // Run-length encoded targets: [x, y, frames, x, y, frames, ...]
+  buttons?: number[]; // Run-length encoded trigger bitmask: [mask, frames, ...]; older replays have none
+  resizes: number[]; // Playfield changes mid-run: [frame, width, height, ...]
+  campaign?: Campaign; // Set when the run flew an authored campaign
+}
+
+// Everything needed to resume a sortie mid-run (cosmetic particles are not kept)
+export interface EngineState {
+  seed: number;
+  rngState: number;
+  fxRngState: number;
+  nextEntityId: number;
+  frame: number;
+  comboTimer: number;
+  waveTransitionTimer: number;
+  waveTick: number;
+  formationTimer: number;
+  formationIndex: number;
+  spawnQueue: PendingSpawn[];
+  emitters: Emitter[];
+  player: Entity;
+  enemies: Entity[];
+  powerups: Entity[];
+  projectiles: Projectile[];
+  stats: GameStats;
+}
+
+// Versioned localStorage snapshot behind "CONTINUE SORTIE"
+export interface SortieSave {
+  version: number;
+  savedAt: number;
+  engine: EngineState;
+  replay: ReplayData; // Inputs so far, so the resumed run still records a full replay
+}
+
+// Mixer levels from the pause / main menu, 0..1; persisted by services/audioSettings.ts
+export interface AudioSettings {
+  master: number;
+  music: number;
+  sfx: number;
+  muted: boolean;
+}
+
+// Lifetime record, credits and unlocks; persisted (versioned) by services/pilotProfile.ts
+export interface PilotProfile {
+  version: number;
+  sorties: number;
+  kills: number;
+  bestWave: number;
+  lifetimeScore: number;
+  playtime: number; // Seconds flown, at the simulation's tick rate
+  credits: number;
+  unlocked: string[]; // Unlock keys for hangar items bought (see services/unlocks.ts)
+  upgrades: UpgradeLevels; // Levels bought in the hangar's upgrade tree
+  config: PlayerConfig; // Last hangar selection
+}
@@ -0,0 +1,236 @@
+import { EngineInput, Entity, InputDevice, Vector2D } from '../types';
+import { PLAYER_SPEED_LERP } from '../engine/GameEngine';
+
+const KEYBOARD_SPEED = 7; // Pixels per tick at full deflection
+const GAMEPAD_SPEED = 8;
+const STICK_DEAD_ZONE = 0.2; // Radial; ignores resting drift on worn sticks
+
+// The engine keeps the ship this far above the steering target (finger offset)
+const TARGET_OFFSET_Y = 20;
+
+const KEY_DIRECTIONS: Record<string, Vector2D> = {
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  w: { x: 0, y: -1 },
+  s: { x: 0, y: 1 },
+  a: { x: -1, y: 0 },
+  d: { x: 1, y: 0 }
+};
+
+// Triggers don't switch the steering device: a touch pilot can still bomb from the keyboard
+const SECONDARY_KEYS = [' ', 'j'];
+const BOMB_KEYS = ['b', 'k'];
+const DOUBLE_TAP_MS = 300;
+
+// Standard gamepad mapping: A fires the secondary, B drops a bomb
+const PAD_SECONDARY = 0;
+const PAD_BOMB = 1;
+
+// Standard gamepad mapping: D-pad up/down/left/right
+const DPAD_BUTTONS: [number, Vector2D][] = [
+  [12, { x: 0, y: -1 }],
+  [13, { x: 0, y: 1 }],
+  [14, { x: -1, y: 0 }],
+  [15, { x: 1, y: 0 }]
+];
+
+const applyDeadZone = (x: number, y: number): Vector2D => {
+  const mag = Math.sqrt(x * x + y * y);
+  if (mag < STICK_DEAD_ZONE) return { x: 0, y: 0 };
+  // Rescale so output ramps from 0 at the dead zone edge to 1 at full tilt
+  const scaled = Math.min(1, (mag - STICK_DEAD_ZONE) / (1 - STICK_DEAD_ZONE));
+  return { x: (x / mag) * scaled, y: (y / mag) * scaled };
+};
+
+/**
+ * Merges touch/mouse, keyboard and gamepad into the single steering target the
+ * engine consumes. Pointer input is absolute (fly to the finger); keys and
+ * sticks are relative, so they are turned into a target just ahead of the ship.
+ * Secondary fire is held (second touch, right mouse button, key or pad button);
+ * bombs are one-shot presses (double-tap, key or pad button).
+ */
+export class InputController {
+  private pointer: Vector2D = { x: 0, y: 0 };
+  private keys = new Set<string>();
+  private device: InputDevice = 'pointer';
+  private onDeviceChange?: (device: InputDevice) => void;
+
+  private pointerSecondary = false;
+  private lastTapAt = -Infinity;
+  private bombQueued = false;
+  private padBombHeld = false;
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+    if (BOMB_KEYS.includes(key)) {
+      if (!e.repeat) this.bombQueued = true;
+      return;
+    }
+    if (!KEY_DIRECTIONS[key] && !SECONDARY_KEYS.includes(key)) return;
+    e.preventDefault(); // Stop arrow keys and space from scrolling the page
+    this.keys.add(key);
+  };
+
+  private handleKeyUp = (e: KeyboardEvent) => {
+    const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+    this.keys.delete(key);
+  };
+
+  private handleBlur = () => {
+    this.keys.clear();
+    this.pointerSecondary = false;
+  };
+
+  attach() {
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+    window.addEventListener('blur', this.handleBlur);
+  }
+
+  detach() {
+    window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('keyup', this.handleKeyUp);
+    window.removeEventListener('blur', this.handleBlur);
+    this.keys.clear();
+    this.pointerSecondary = false;
+    this.bombQueued = false;
+  }
+
+  /** Drops bomb presses and half-finished double taps that haven't been polled yet. */
+  clearTriggers() {
+    this.bombQueued = false;
+    this.lastTapAt = -Infinity;
+  }
+
+  setDeviceListener(onDeviceChange: (device: InputDevice) => void) {
+    this.onDeviceChange = onDeviceChange;
+  }
+
+  getDevice() {
+    return this.device;
+  }
+
+  private setDevice(device: InputDevice) {
+    if (device === this.device) return;
+    this.device = device;
+    this.onDeviceChange?.(device);
+  }
+
+  /** Touch/mouse position in canvas space. `fromUser: false` moves it without switching device. */
+  setPointer(pos: Vector2D, fromUser: boolean = true) {
+    this.pointer = { x: pos.x, y: pos.y };
+    if (fromUser) this.setDevice('pointer');
+  }
+
+  /** Second touch or right mouse button held down. */
+  setPointerSecondary(held: boolean) {
+    this.pointerSecondary = held;
+  }
+
+  /** A fresh single touch or click; two in quick succession drop a bomb. */
+  tap(timeMs: number) {
+    if (timeMs - this.lastTapAt < DOUBLE_TAP_MS) {
+      this.bombQueued = true;
+      this.lastTapAt = -Infinity;
+    } else {
+      this.lastTapAt = timeMs;
+    }
+  }
+
+  private readKeyboard(): Vector2D {
+    let x = 0;
+    let y = 0;
+    this.keys.forEach(key => {
+      if (!KEY_DIRECTIONS[key]) return;
+      x += KEY_DIRECTIONS[key].x;
+      y += KEY_DIRECTIONS[key].y;
+    });
+    const mag = Math.sqrt(x * x + y * y);
+    return mag > 0 ? { x: x / mag, y: y / mag } : { x: 0, y: 0 };
+  }
+
+  private readGamepad(): Vector2D {
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) return { x: 0, y: 0 };
+
+    for (const pad of navigator.getGamepads()) {
+      if (!pad) continue;
+
+      const stick = applyDeadZone(pad.axes[0] || 0, pad.axes[1] || 0);
+      if (stick.x !== 0 || stick.y !== 0) return stick;
+
+      let x = 0;
+      let y = 0;
+      DPAD_BUTTONS.forEach(([index, dir]) => {
+        if (pad.buttons[index]?.pressed) {
+          x += dir.x;
+          y += dir.y;
+        }
+      });
+      if (x !== 0 || y !== 0) {
+        const mag = Math.sqrt(x * x + y * y);
+        return { x: x / mag, y: y / mag };
+      }
+    }
+    return { x: 0, y: 0 };
+  }
+
+  // Held secondary and a bomb press edge from any pad
+  private readGamepadButtons(): { secondary: boolean; bomb: boolean } {
+    let secondary = false;
+    let bombHeld = false;
+    if (typeof navigator !== 'undefined' && navigator.getGamepads) {
+      for (const pad of navigator.getGamepads()) {
+        if (!pad) continue;
+        secondary = secondary || !!pad.buttons[PAD_SECONDARY]?.pressed;
+        bombHeld = bombHeld || !!pad.buttons[PAD_BOMB]?.pressed;
+      }
+    }
+    const bomb = bombHeld && !this.padBombHeld;
+    this.padBombHeld = bombHeld;
+    return { secondary, bomb };
+  }
+
+  /**
+   * Reads every device once per tick and returns where the ship should steer,
+   * plus the secondary and bomb triggers. The most recently used device steers.
+   */
+  poll(player: Readonly<Entity>): EngineInput {
+    const buttons = this.readGamepadButtons();
+    const secondary = buttons.secondary || this.pointerSecondary || SECONDARY_KEYS.some(key => this.keys.has(key));
+    const bomb = buttons.bomb || this.bombQueued;
+    this.bombQueued = false;
+
+    return { target: this.readTarget(player), secondary, bomb };
+  }
+
+  private readTarget(player: Readonly<Entity>): Vector2D {
+    const pad = this.readGamepad();
+    const keys = this.readKeyboard();
+
+    let move: Vector2D | null = null;
+    let speed = 0;
+    if (pad.x !== 0 || pad.y !== 0) {
+      this.setDevice('gamepad');
+      move = pad;
+      speed = GAMEPAD_SPEED;
+    } else if (keys.x !== 0 || keys.y !== 0) {
+      this.setDevice('keyboard');
+      move = keys;
+      speed = KEYBOARD_SPEED;
+    }
+
+    if (this.device === 'pointer') {
+      return this.pointer;
+    }
+
+    // Relative devices: aim where the lerp will carry the ship `speed` px this tick.
+    // With no deflection this is the ship's own position, so it holds still.
+    const step = move ? speed / PLAYER_SPEED_LERP : 0;
+    return {
+      x: player.pos.x + player.size.x / 2 + (move ? move.x * step : 0),
+      y: player.pos.y + player.size.y + TARGET_OFFSET_Y + (move ? move.y * step : 0)
+    };
+  }
+}
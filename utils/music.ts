@@ -0,0 +1,345 @@
+import { getAudioContext, getMusicBus } from './sound';
+import { Random, deriveSeed } from './random';
+
+// Procedural background music: a lookahead step sequencer playing synthesized
+// loops built from the same oscillators as the sound effects. Every track is
+// generated from a seed, so a given track and variation always sounds the same.
+
+export type MusicTrackId = 'MENU' | 'HANGAR' | 'WAVE' | 'BOSS';
+
+type LayerId = 'pad' | 'bass' | 'kick' | 'hats' | 'arp' | 'lead';
+type BassStyle = 'pulse' | 'octave' | 'gallop';
+type DrumStyle = 'four' | 'halftime' | 'broken';
+
+interface TrackDefinition {
+  bpm: number;
+  root: number; // MIDI note of the key
+  scale: number[]; // Semitones above the root
+  progressions: number[][]; // Scale degrees, one chord per bar; a variation picks one
+  bass: BassStyle;
+  drums: DrumStyle;
+  lead: OscillatorType;
+  // Layers the track uses, each with the intensity it comes in at (0 = always)
+  layers: Partial<Record<LayerId, number>>;
+}
+
+const MINOR = [0, 2, 3, 5, 7, 8, 10];
+const DORIAN = [0, 2, 3, 5, 7, 9, 10];
+const PHRYGIAN = [0, 1, 3, 5, 7, 8, 10];
+
+export const MUSIC_TRACKS: Record<MusicTrackId, TrackDefinition> = {
+  MENU: {
+    bpm: 96, root: 57, scale: MINOR, progressions: [[0, 5, 3, 4], [0, 3, 5, 4]],
+    bass: 'pulse', drums: 'halftime', lead: 'triangle',
+    layers: { pad: 0, bass: 0, kick: 0, arp: 0 }
+  },
+  HANGAR: {
+    bpm: 84, root: 50, scale: DORIAN, progressions: [[0, 3, 0, 4], [0, 1, 3, 4]],
+    bass: 'pulse', drums: 'halftime', lead: 'triangle',
+    layers: { pad: 0, bass: 0, arp: 0 }
+  },
+  WAVE: {
+    bpm: 120, root: 52, scale: MINOR, progressions: [[0, 5, 2, 6], [0, 3, 4, 0], [0, 6, 5, 4]],
+    bass: 'octave', drums: 'four', lead: 'square',
+    layers: { pad: 0, bass: 0, kick: 0, hats: 1, arp: 2, lead: 3 }
+  },
+  BOSS: {
+    bpm: 140, root: 50, scale: PHRYGIAN, progressions: [[0, 1, 0, 6], [0, 1, 5, 6]],
+    bass: 'gallop', drums: 'broken', lead: 'sawtooth',
+    layers: { pad: 0, bass: 0, kick: 0, hats: 0, arp: 1, lead: 2 }
+  }
+};
+
+const STEPS_PER_BAR = 16; // 16th notes
+const LOOKAHEAD = 0.12; // Seconds of notes scheduled ahead of the audio clock
+const SCHEDULER_MS = 25;
+
+// Combo needed for each intensity level; layers come in at their level
+const INTENSITY_COMBOS = [0, 5, 12, 25];
+
+export const intensityForCombo = (combo: number) =>
+  INTENSITY_COMBOS.filter(threshold => combo >= threshold).length - 1;
+
+// --- Patterns ---
+
+// One generated loop: chords per bar plus the lead line, as scale-relative notes
+interface Pattern {
+  key: number; // MIDI root after the variation's transposition
+  chords: number[]; // Scale degree of each bar
+  arpUp: boolean;
+  lead: (number | null)[][]; // Per bar, per step: scale degree to start, or null
+}
+
+const trackSeed = (id: MusicTrackId, variation: number) =>
+  deriveSeed([...id].reduce((h, c) => Math.imul(h, 31) + c.charCodeAt(0), variation), 0);
+
+const generatePattern = (def: TrackDefinition, id: MusicTrackId, variation: number): Pattern => {
+  const rng = new Random(trackSeed(id, variation));
+  const chords = def.progressions[Math.floor(rng.next() * def.progressions.length)];
+  const transpose = [0, 2, -2, 3][variation % 4];
+
+  // Lead: a random walk over the scale, leaning on chord tones on the beat
+  let degree = 7;
+  const lead = chords.map(chord =>
+    Array.from({ length: STEPS_PER_BAR }, (_, step) => {
+      if (step % 2 === 1 || !rng.chance(step % 4 === 0 ? 0.7 : 0.35)) return null;
+      if (step % 4 === 0) degree = chord + 7 + [0, 2, 4][Math.floor(rng.next() * 3)];
+      else degree += Math.floor(rng.range(-2, 3));
+      degree = Math.max(4, Math.min(14, degree));
+      return degree;
+    })
+  );
+
+  return { key: def.root + transpose, chords, arpUp: rng.chance(0.5), lead };
+};
+
+// Scale degree (may exceed one octave) to frequency
+const noteFreq = (def: TrackDefinition, key: number, degree: number) => {
+  const octave = Math.floor(degree / def.scale.length);
+  const idx = ((degree % def.scale.length) + def.scale.length) % def.scale.length;
+  const midi = key + octave * 12 + def.scale[idx];
+  return 440 * Math.pow(2, (midi - 69) / 12);
+};
+
+// --- Instruments ---
+
+let noiseBuffer: AudioBuffer | null = null;
+
+const getNoise = (ctx: AudioContext) => {
+  if (!noiseBuffer) {
+    noiseBuffer = ctx.createBuffer(1, ctx.sampleRate / 2, ctx.sampleRate);
+    const data = noiseBuffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  }
+  return noiseBuffer;
+};
+
+const tone = (
+  ctx: AudioContext, out: AudioNode, time: number, freq: number, duration: number,
+  type: OscillatorType, level: number, cutoff: number = 0, attack: number = 0.005
+) => {
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.type = type;
+  osc.frequency.setValueAtTime(freq, time);
+
+  gain.gain.setValueAtTime(0, time);
+  gain.gain.linearRampToValueAtTime(level, time + attack);
+  gain.gain.exponentialRampToValueAtTime(0.001, time + duration);
+
+  if (cutoff) {
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = cutoff;
+    osc.connect(filter);
+    filter.connect(gain);
+  } else {
+    osc.connect(gain);
+  }
+  gain.connect(out);
+  osc.start(time);
+  osc.stop(time + duration + 0.05);
+};
+
+const kick = (ctx: AudioContext, out: AudioNode, time: number) => {
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.type = 'sine';
+  osc.frequency.setValueAtTime(150, time);
+  osc.frequency.exponentialRampToValueAtTime(40, time + 0.12);
+  gain.gain.setValueAtTime(0.35, time);
+  gain.gain.exponentialRampToValueAtTime(0.001, time + 0.25);
+  osc.connect(gain);
+  gain.connect(out);
+  osc.start(time);
+  osc.stop(time + 0.3);
+};
+
+const noiseHit = (ctx: AudioContext, out: AudioNode, time: number, highpass: number, level: number, duration: number) => {
+  const src = ctx.createBufferSource();
+  const filter = ctx.createBiquadFilter();
+  const gain = ctx.createGain();
+  src.buffer = getNoise(ctx);
+  filter.type = 'highpass';
+  filter.frequency.value = highpass;
+  gain.gain.setValueAtTime(level, time);
+  gain.gain.exponentialRampToValueAtTime(0.001, time + duration);
+  src.connect(filter);
+  filter.connect(gain);
+  gain.connect(out);
+  src.start(time);
+  src.stop(time + duration + 0.05);
+};
+
+const KICK_STEPS: Record<DrumStyle, number[]> = { four: [0, 4, 8, 12], halftime: [0, 10], broken: [0, 3, 6, 10, 11] };
+const SNARE_STEPS: Record<DrumStyle, number[]> = { four: [4, 12], halftime: [8], broken: [4, 12] };
+const BASS_STEPS: Record<BassStyle, number[]> = {
+  pulse: [0, 2, 4, 6, 8, 10, 12, 14],
+  octave: [0, 2, 4, 6, 8, 10, 12, 14],
+  gallop: [0, 3, 4, 6, 8, 11, 12, 14]
+};
+
+// --- Sequencer ---
+
+interface PlayingTrack {
+  id: MusicTrackId;
+  variation: number;
+  def: TrackDefinition;
+  pattern: Pattern;
+  output: GainNode; // Crossfades
+  layers: Partial<Record<LayerId, GainNode>>; // Intensity
+  enabled: Partial<Record<LayerId, boolean>>;
+  offAt: Partial<Record<LayerId, number>>; // When a disabled layer started fading; its notes play until then
+  step: number; // Next step to schedule, counted from the start of the track
+  stepTime: number; // When that step plays, on the audio clock
+  endTime: number; // Infinity until faded out
+}
+
+let current: PlayingTrack | null = null;
+let fading: PlayingTrack[] = [];
+let intensity = 0;
+let timer: ReturnType<typeof setInterval> | null = null;
+
+const stepLength = (def: TrackDefinition) => 60 / def.bpm / 4;
+
+// Start of the bar after the one now playing; crossfades and layer changes land there
+const nextBar = (track: PlayingTrack) => {
+  const remaining = (STEPS_PER_BAR - (track.step % STEPS_PER_BAR)) % STEPS_PER_BAR;
+  return track.stepTime + remaining * stepLength(track.def);
+};
+
+const scheduleStep = (ctx: AudioContext, track: PlayingTrack, step: number, time: number) => {
+  const { def, pattern, layers } = track;
+  const bar = Math.floor(step / STEPS_PER_BAR) % pattern.chords.length;
+  const beat = step % STEPS_PER_BAR;
+  const chord = pattern.chords[bar];
+  const len = stepLength(def);
+  const freq = (degree: number) => noteFreq(def, pattern.key, degree);
+  const play = (layer: LayerId) => (track.enabled[layer] || time < (track.offAt[layer] ?? 0) ? layers[layer] : undefined);
+
+  const pad = play('pad');
+  if (pad && beat === 0) {
+    [0, 2, 4].forEach(offset => tone(ctx, pad, time, freq(chord + offset), len * STEPS_PER_BAR, 'sawtooth', 0.018, 900, 0.3));
+  }
+
+  const bass = play('bass');
+  if (bass && BASS_STEPS[def.bass].includes(beat)) {
+    const octaveUp = def.bass === 'octave' && beat % 4 === 2;
+    tone(ctx, bass, time, freq(chord - 7 + (octaveUp ? 7 : 0)), len * 1.6, 'square', 0.07, 500);
+  }
+
+  const drums = play('kick');
+  if (drums) {
+    if (KICK_STEPS[def.drums].includes(beat)) kick(ctx, drums, time);
+    if (SNARE_STEPS[def.drums].includes(beat)) noiseHit(ctx, drums, time, 1500, 0.12, 0.15);
+  }
+
+  const hats = play('hats');
+  if (hats && beat % 2 === 0) noiseHit(ctx, hats, time, 7000, beat % 4 === 2 ? 0.05 : 0.025, 0.04);
+
+  const arp = play('arp');
+  if (arp) {
+    const tones = [0, 2, 4, 7];
+    const i = beat % tones.length;
+    tone(ctx, arp, time, freq(chord + 7 + tones[pattern.arpUp ? i : tones.length - 1 - i]), len * 0.9, 'square', 0.02, 2500);
+  }
+
+  const lead = play('lead');
+  const note = pattern.lead[bar][beat];
+  if (lead && note !== null) tone(ctx, lead, time, freq(note), len * 3, def.lead, 0.035, 3000);
+};
+
+// Layers follow the intensity from the next bar on, with a short glide
+const applyIntensity = (track: PlayingTrack, at: number) => {
+  (Object.keys(track.layers) as LayerId[]).forEach(layer => {
+    const on = intensity >= track.def.layers[layer]!;
+    if (track.enabled[layer] === on) return;
+    track.enabled[layer] = on;
+    if (!on) track.offAt[layer] = at;
+    const gain = track.layers[layer]!.gain;
+    gain.cancelScheduledValues(at);
+    gain.setTargetAtTime(on ? 1 : 0, at, 0.08);
+  });
+};
+
+const runScheduler = () => {
+  const ctx = getAudioContext();
+  if (!ctx) return;
+
+  [current, ...fading].forEach(track => {
+    if (!track) return;
+    while (track.stepTime < ctx.currentTime + LOOKAHEAD && track.stepTime < track.endTime) {
+      scheduleStep(ctx, track, track.step, track.stepTime);
+      track.step++;
+      track.stepTime += stepLength(track.def);
+    }
+  });
+
+  fading = fading.filter(track => {
+    if (ctx.currentTime < track.endTime + 0.5) return true;
+    track.output.disconnect();
+    return false;
+  });
+  if (!current && fading.length === 0 && timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
+
+const startTrack = (ctx: AudioContext, bus: AudioNode, id: MusicTrackId, variation: number, at: number, fade: number): PlayingTrack => {
+  const def = MUSIC_TRACKS[id];
+  const output = ctx.createGain();
+  output.gain.setValueAtTime(0, ctx.currentTime);
+  output.gain.setValueAtTime(0, at);
+  output.gain.linearRampToValueAtTime(1, at + fade);
+  output.connect(bus);
+
+  const layers: Partial<Record<LayerId, GainNode>> = {};
+  const enabled: Partial<Record<LayerId, boolean>> = {};
+  (Object.keys(def.layers) as LayerId[]).forEach(layer => {
+    const gain = ctx.createGain();
+    const on = intensity >= def.layers[layer]!;
+    gain.gain.value = on ? 1 : 0;
+    gain.connect(output);
+    layers[layer] = gain;
+    enabled[layer] = on;
+  });
+
+  return { id, variation, def, pattern: generatePattern(def, id, variation), output, layers, enabled, offAt: {}, step: 0, stepTime: at, endTime: Infinity };
+};
+
+const fadeOut = (track: PlayingTrack, at: number, fade: number) => {
+  track.output.gain.cancelScheduledValues(at);
+  track.output.gain.setValueAtTime(1, at);
+  track.output.gain.linearRampToValueAtTime(0, at + fade);
+  track.endTime = at + fade;
+  fading.push(track);
+};
+
+/**
+ * Switches the music, or stops it with null. A change crossfades over one bar,
+ * starting on the next bar line of whatever is playing. `variation` re-rolls the
+ * patterns and key (e.g. per wave); asking for what already plays does nothing.
+ */
+export const playMusic = (id: MusicTrackId | null, variation: number = 0) => {
+  const ctx = getAudioContext();
+  const bus = getMusicBus();
+  if (!ctx || !bus) return;
+  if (current && current.id === id && current.variation === variation) return;
+  if (!current && !id) return;
+
+  const at = current ? nextBar(current) : ctx.currentTime + 0.05;
+  const fade = current ? stepLength(current.def) * STEPS_PER_BAR : 0.5;
+  if (current) fadeOut(current, at, fade);
+  current = id ? startTrack(ctx, bus, id, variation, at, fade) : null;
+
+  if (!timer) timer = setInterval(runScheduler, SCHEDULER_MS);
+  runScheduler();
+};
+
+/** Brings layers in or out (from the next bar); see `intensityForCombo`. */
+export const setMusicIntensity = (level: number) => {
+  if (level === intensity) return;
+  intensity = level;
+  if (current) applyIntensity(current, nextBar(current));
+};
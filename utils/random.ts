@@ -0,0 +1,46 @@
+// Small seedable PRNG (mulberry32). Same seed => same sequence, on every platform.
+export class Random {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /** Float in [0, 1), drop-in for Math.random() */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Float in [min, max) */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /** Raw generator state, for save/restore mid-sequence */
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number) {
+    this.state = state >>> 0;
+  }
+}
+
+export const randomSeed = (): number => Math.floor(Math.random() * 0xffffffff) >>> 0;
+
+// Derive an independent stream from a base seed so that cosmetic rolls never
+// shift the gameplay sequence (and vice versa)
+export const deriveSeed = (seed: number, stream: number): number => {
+  let h = (seed ^ Math.imul(stream + 1, 0x9e3779b1)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
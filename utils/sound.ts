@@ -1,6 +1,109 @@
+import { AudioSettings } from '../types';
+import { DEFAULT_AUDIO_SETTINGS } from '../services/audioSettings';
 
 let audioCtx: AudioContext | null = null;
 
+// --- Mixer ---
+// sfx / music buses -> compressor -> master -> speakers. Nothing connects to
+// the destination directly, so master volume and mute cover every sound.
+
+interface Mixer {
+  master: GainNode;
+  music: GainNode;
+  sfx: GainNode;
+}
+
+let mixer: Mixer | null = null;
+let settings: AudioSettings = DEFAULT_AUDIO_SETTINGS;
+
+const createMixer = (ctx: AudioContext): Mixer => {
+  const master = ctx.createGain();
+  const music = ctx.createGain();
+  const sfx = ctx.createGain();
+
+  // Catches the peaks when many voices stack up (bosses exploding mid volley)
+  const compressor = ctx.createDynamicsCompressor();
+  compressor.threshold.value = -18;
+  compressor.knee.value = 12;
+  compressor.ratio.value = 6;
+  compressor.attack.value = 0.003;
+  compressor.release.value = 0.25;
+
+  music.connect(compressor);
+  sfx.connect(compressor);
+  compressor.connect(master);
+  master.connect(ctx.destination);
+  return { master, music, sfx };
+};
+
+// Short glide instead of a jump, so dragging a slider doesn't click
+const updateGains = () => {
+  if (!audioCtx || !mixer) return;
+  const t = audioCtx.currentTime;
+  mixer.master.gain.setTargetAtTime(settings.muted ? 0 : settings.master, t, 0.02);
+  mixer.music.gain.setTargetAtTime(settings.music, t, 0.02);
+  mixer.sfx.gain.setTargetAtTime(settings.sfx, t, 0.02);
+};
+
+export const applyAudioSettings = (next: AudioSettings) => {
+  settings = next;
+  updateGains();
+};
+
+/** Bus for background music (utils/music.ts); null until `initAudio` has run. */
+export const getMusicBus = (): GainNode | null => mixer?.music ?? null;
+
+export const getAudioContext = (): AudioContext | null => audioCtx;
+
+// --- Voice limiting ---
+// Each sound claims a voice for its length. Past a group's limit (or the
+// overall cap) new sounds are dropped, so a RAPID volley stays a few layers deep.
+
+type VoiceGroup = 'shoot' | 'enemyShot' | 'explosion' | 'pickup' | 'jingle' | 'alert';
+
+const VOICE_LIMITS: Record<VoiceGroup, number> = {
+  shoot: 4,
+  enemyShot: 4,
+  explosion: 6,
+  pickup: 3,
+  jingle: 2,
+  alert: 2
+};
+const MAX_VOICES = 20;
+
+const activeVoices: Record<VoiceGroup, number> = { shoot: 0, enemyShot: 0, explosion: 0, pickup: 0, jingle: 0, alert: 0 };
+let totalVoices = 0;
+
+// Where to plug a sound in for `seconds` (the sfx bus, through a panner when
+// `pan` is off center), or null when the sound should be skipped
+const claimVoice = (group: VoiceGroup, seconds: number, pan: number = 0): AudioNode | null => {
+  if (!audioCtx || !mixer) return null;
+  if (activeVoices[group] >= VOICE_LIMITS[group] || totalVoices >= MAX_VOICES) return null;
+
+  activeVoices[group]++;
+  totalVoices++;
+  setTimeout(() => {
+    activeVoices[group]--;
+    totalVoices--;
+  }, seconds * 1000);
+
+  // Older Safari has no StereoPannerNode; those sounds just play centered
+  if (pan === 0 || !audioCtx.createStereoPanner) return mixer.sfx;
+  const panner = audioCtx.createStereoPanner();
+  panner.pan.value = pan;
+  panner.connect(mixer.sfx);
+  setTimeout(() => panner.disconnect(), seconds * 1000 + 100);
+  return panner;
+};
+
+// --- Panning ---
+
+const PAN_WIDTH = 0.8; // Keep the screen edges short of hard left / right
+
+/** Stereo position (-1 left .. 1 right) of a sound at `x` on a playfield `width` px wide. */
+export const panAt = (x: number, width: number) =>
+  width > 0 ? Math.max(-1, Math.min(1, (x / width) * 2 - 1)) * PAN_WIDTH : 0;
+
 export const initAudio = () => {
   if (typeof window === 'undefined') return;
   
@@ -8,6 +111,8 @@ export const initAudio = () => {
     const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
     if (AudioContextClass) {
       audioCtx = new AudioContextClass();
+      mixer = createMixer(audioCtx);
+      updateGains();
     }
   }
   
@@ -16,8 +121,22 @@ export const initAudio = () => {
   }
 };
 
-export const playShoot = (type: string = 'BLASTER') => {
-  if (!audioCtx) return;
+// Silence everything in flight while the game is paused
+export const suspendAudio = () => {
+  if (audioCtx && audioCtx.state === 'running') {
+    audioCtx.suspend();
+  }
+};
+
+export const resumeAudio = () => {
+  if (audioCtx && audioCtx.state === 'suspended') {
+    audioCtx.resume();
+  }
+};
+
+export const playShoot = (type: string = 'BLASTER', pan: number = 0) => {
+  const out = claimVoice('shoot', 0.1, pan);
+  if (!audioCtx || !out) return;
   const t = audioCtx.currentTime;
   const osc = audioCtx.createOscillator();
   const gain = audioCtx.createGain();
@@ -34,15 +153,16 @@ export const playShoot = (type: string = 'BLASTER') => {
   gain.gain.exponentialRampToValueAtTime(0.001, t + 0.1);
   
   osc.connect(gain);
-  gain.connect(audioCtx.destination);
+  gain.connect(out);
   osc.start(t);
   osc.stop(t + 0.1);
 };
 
-export const playExplosion = (isBoss: boolean = false) => {
-  if (!audioCtx) return;
-  const t = audioCtx.currentTime;
+export const playExplosion = (isBoss: boolean = false, pan: number = 0) => {
   const duration = isBoss ? 0.8 : 0.3;
+  const out = claimVoice('explosion', duration, pan);
+  if (!audioCtx || !out) return;
+  const t = audioCtx.currentTime;
   
   const osc = audioCtx.createOscillator();
   const gain = audioCtx.createGain();
@@ -55,13 +175,14 @@ export const playExplosion = (isBoss: boolean = false) => {
   gain.gain.exponentialRampToValueAtTime(0.001, t + duration);
   
   osc.connect(gain);
-  gain.connect(audioCtx.destination);
+  gain.connect(out);
   osc.start(t);
   osc.stop(t + duration);
 };
 
-export const playPowerUp = () => {
-  if (!audioCtx) return;
+export const playPowerUp = (pan: number = 0) => {
+  const out = claimVoice('pickup', 0.35, pan);
+  if (!audioCtx || !out) return;
   const t = audioCtx.currentTime;
   
   const playTone = (freq: number, startTime: number) => {
@@ -75,7 +196,7 @@ export const playPowerUp = () => {
     gain.gain.exponentialRampToValueAtTime(0.001, startTime + 0.15);
     
     osc.connect(gain);
-    gain.connect(audioCtx!.destination);
+    gain.connect(out);
     osc.start(startTime);
     osc.stop(startTime + 0.15);
   };
@@ -85,8 +206,9 @@ export const playPowerUp = () => {
   playTone(783.99, t + 0.2); // G5
 };
 
-export const playWeaponUp = () => {
-  if (!audioCtx) return;
+export const playWeaponUp = (pan: number = 0) => {
+  const out = claimVoice('pickup', 0.4, pan);
+  if (!audioCtx || !out) return;
   const t = audioCtx.currentTime;
   
   const osc = audioCtx.createOscillator();
@@ -110,7 +232,7 @@ export const playWeaponUp = () => {
   gain.gain.linearRampToValueAtTime(0, t + 0.4);
   
   osc.connect(gain);
-  gain.connect(audioCtx.destination);
+  gain.connect(out);
   
   lfo.start(t);
   osc.start(t);
@@ -119,7 +241,8 @@ export const playWeaponUp = () => {
 };
 
 export const playGameOver = () => {
-  if (!audioCtx) return;
+  const out = claimVoice('jingle', 1.5);
+  if (!audioCtx || !out) return;
   const t = audioCtx.currentTime;
   
   const osc = audioCtx.createOscillator();
@@ -133,13 +256,14 @@ export const playGameOver = () => {
   gain.gain.linearRampToValueAtTime(0, t + 1.5);
   
   osc.connect(gain);
-  gain.connect(audioCtx.destination);
+  gain.connect(out);
   osc.start(t);
   osc.stop(t + 1.5);
 };
 
 export const playWaveTransition = () => {
-  if (!audioCtx) return;
+  const out = claimVoice('jingle', 0.8);
+  if (!audioCtx || !out) return;
   const t = audioCtx.currentTime;
   
   const osc = audioCtx.createOscillator();
@@ -156,7 +280,7 @@ export const playWaveTransition = () => {
   gain.gain.exponentialRampToValueAtTime(0.001, t + 0.6);
   
   osc.connect(gain);
-  gain.connect(audioCtx.destination);
+  gain.connect(out);
   osc.start(t);
   osc.stop(t + 0.6);
 
@@ -172,7 +296,191 @@ export const playWaveTransition = () => {
   gain2.gain.exponentialRampToValueAtTime(0.001, t + 0.8);
 
   osc2.connect(gain2);
-  gain2.connect(audioCtx.destination);
+  gain2.connect(out);
   osc2.start(t);
   osc2.stop(t + 0.8);
 };
+
+// --- Palette ---
+// Building blocks for the per-enemy and per-event sounds below
+
+// Oscillator sweeping from `from` to `to` Hz with a decaying envelope
+const sweep = (
+  out: AudioNode, start: number, duration: number, type: OscillatorType,
+  from: number, to: number, level: number
+) => {
+  const osc = audioCtx!.createOscillator();
+  const gain = audioCtx!.createGain();
+  osc.type = type;
+  osc.frequency.setValueAtTime(from, start);
+  osc.frequency.exponentialRampToValueAtTime(to, start + duration);
+  gain.gain.setValueAtTime(level, start);
+  gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+  osc.connect(gain);
+  gain.connect(out);
+  osc.start(start);
+  osc.stop(start + duration);
+};
+
+let noiseBuffer: AudioBuffer | null = null;
+
+// Filtered white noise burst: debris, static, hiss
+const noise = (out: AudioNode, start: number, duration: number, filter: BiquadFilterType, cutoff: number, level: number) => {
+  const ctx = audioCtx!;
+  if (!noiseBuffer) {
+    noiseBuffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+    const data = noiseBuffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  }
+  const src = ctx.createBufferSource();
+  const biquad = ctx.createBiquadFilter();
+  const gain = ctx.createGain();
+  src.buffer = noiseBuffer;
+  biquad.type = filter;
+  biquad.frequency.value = cutoff;
+  gain.gain.setValueAtTime(level, start);
+  gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+  src.connect(biquad);
+  biquad.connect(gain);
+  gain.connect(out);
+  src.start(start);
+  src.stop(start + duration);
+};
+
+// One death sound per enemy archetype (see `deathSound` in engine/enemies.ts)
+export type EnemySound = 'pop' | 'zip' | 'blast' | 'crunch' | 'clank' | 'shatter' | 'boss';
+
+const DEATH_LENGTH: Record<EnemySound, number> = {
+  pop: 0.2, zip: 0.25, blast: 0.5, crunch: 0.35, clank: 0.45, shatter: 0.4, boss: 1.2
+};
+
+export const playEnemyDeath = (sound: EnemySound, pan: number = 0) => {
+  const duration = DEATH_LENGTH[sound];
+  const out = claimVoice('explosion', duration, pan);
+  if (!audioCtx || !out) return;
+  const t = audioCtx.currentTime;
+
+  switch (sound) {
+    case 'pop': // Light drone: short square blip and a puff
+      sweep(out, t, 0.15, 'square', 520, 90, 0.06);
+      noise(out, t, 0.12, 'bandpass', 2500, 0.05);
+      break;
+    case 'zip': // Interceptor: fast upward whine that cuts out
+      sweep(out, t, 0.2, 'sawtooth', 300, 1800, 0.05);
+      noise(out, t + 0.05, 0.15, 'highpass', 4000, 0.04);
+      break;
+    case 'blast': // Kamikaze: its payload goes up with it
+      sweep(out, t, 0.45, 'sawtooth', 140, 20, 0.14);
+      noise(out, t, 0.5, 'lowpass', 900, 0.18);
+      break;
+    case 'crunch': // Gunner: metal folding
+      sweep(out, t, 0.3, 'square', 180, 40, 0.08);
+      noise(out, t, 0.25, 'bandpass', 1200, 0.1);
+      break;
+    case 'clank': // Turret: heavy ringing plate
+      sweep(out, t, 0.4, 'triangle', 330, 310, 0.08);
+      sweep(out, t, 0.4, 'triangle', 495, 470, 0.05);
+      noise(out, t, 0.2, 'lowpass', 600, 0.12);
+      break;
+    case 'shatter': // Sniper: cracked lens tinkling apart
+      [0, 0.05, 0.11, 0.18].forEach((delay, i) => sweep(out, t + delay, 0.15, 'sine', 2400 - i * 300, 1600 - i * 200, 0.04));
+      noise(out, t, 0.3, 'highpass', 5000, 0.06);
+      break;
+    case 'boss': // Layered detonation with a long rumble tail
+      sweep(out, t, 0.8, 'sawtooth', 80, 10, 0.3);
+      sweep(out, t + 0.15, 1.0, 'square', 60, 15, 0.15);
+      noise(out, t, 1.2, 'lowpass', 500, 0.3);
+      break;
+  }
+};
+
+// Enemy volleys (the `sound` of a pattern in engine/patterns.json)
+export type EnemyShotSound = 'pulse' | 'beam' | 'burst' | 'cannon' | 'chime' | 'missile';
+
+export const playEnemyShot = (sound: EnemyShotSound, pan: number = 0) => {
+  const duration = sound === 'cannon' || sound === 'missile' ? 0.3 : 0.15;
+  const out = claimVoice('enemyShot', duration, pan);
+  if (!audioCtx || !out) return;
+  const t = audioCtx.currentTime;
+
+  switch (sound) {
+    case 'pulse':
+      sweep(out, t, 0.1, 'square', 440, 220, 0.03);
+      break;
+    case 'beam':
+      sweep(out, t, 0.15, 'sawtooth', 1200, 300, 0.03);
+      break;
+    case 'burst':
+      sweep(out, t, 0.12, 'triangle', 300, 150, 0.05);
+      noise(out, t, 0.08, 'bandpass', 1800, 0.03);
+      break;
+    case 'cannon':
+      sweep(out, t, 0.3, 'square', 120, 40, 0.07);
+      noise(out, t, 0.15, 'lowpass', 700, 0.06);
+      break;
+    case 'chime':
+      sweep(out, t, 0.15, 'sine', 1320, 1300, 0.03);
+      sweep(out, t, 0.15, 'sine', 1980, 1950, 0.02);
+      break;
+    case 'missile':
+      noise(out, t, 0.3, 'bandpass', 800, 0.05);
+      sweep(out, t, 0.3, 'sawtooth', 200, 400, 0.02);
+      break;
+  }
+};
+
+// Taking damage: a dull hit under a burst of static, distinct from anything blowing up
+export const playPlayerHit = (pan: number = 0) => {
+  const out = claimVoice('alert', 0.35, pan);
+  if (!audioCtx || !out) return;
+  const t = audioCtx.currentTime;
+  sweep(out, t, 0.3, 'square', 220, 55, 0.12);
+  noise(out, t, 0.25, 'bandpass', 3000, 0.1);
+};
+
+// Rising arpeggio; each milestone starts a little higher than the last
+export const playComboMilestone = (combo: number) => {
+  const out = claimVoice('jingle', 0.4);
+  if (!audioCtx || !out) return;
+  const t = audioCtx.currentTime;
+  const base = 440 * Math.pow(2, Math.min(12, Math.floor(combo / 10) - 1) / 12);
+  [1, 1.25, 1.5, 2].forEach((ratio, i) => sweep(out, t + i * 0.06, 0.15, 'square', base * ratio, base * ratio, 0.04));
+};
+
+// Two-tone cockpit alarm, repeated by the engine while hull integrity is low
+export const playLowHpWarning = () => {
+  const out = claimVoice('alert', 0.3);
+  if (!audioCtx || !out) return;
+  const t = audioCtx.currentTime;
+  sweep(out, t, 0.12, 'square', 880, 870, 0.04);
+  sweep(out, t + 0.15, 0.12, 'square', 660, 650, 0.04);
+};
+
+// Boss shedding armor: a crack followed by a wobbling descent
+export const playBossPhase = (pan: number = 0) => {
+  const out = claimVoice('jingle', 1.0, pan);
+  if (!audioCtx || !out) return;
+  const t = audioCtx.currentTime;
+  noise(out, t, 0.4, 'lowpass', 1200, 0.2);
+
+  const osc = audioCtx.createOscillator();
+  const gain = audioCtx.createGain();
+  const lfo = audioCtx.createOscillator();
+  const lfoGain = audioCtx.createGain();
+  lfo.frequency.value = 8;
+  lfoGain.gain.value = 30;
+  lfo.connect(lfoGain);
+  lfoGain.connect(osc.frequency);
+
+  osc.type = 'sawtooth';
+  osc.frequency.setValueAtTime(400, t);
+  osc.frequency.exponentialRampToValueAtTime(60, t + 1.0);
+  gain.gain.setValueAtTime(0.12, t);
+  gain.gain.exponentialRampToValueAtTime(0.001, t + 1.0);
+  osc.connect(gain);
+  gain.connect(out);
+  lfo.start(t);
+  osc.start(t);
+  lfo.stop(t + 1.0);
+  osc.stop(t + 1.0);
+};